@@ -1,65 +1,33 @@
 'use server'
 
 import { query } from '@anthropic-ai/claude-agent-sdk'
-import { GoogleGenAI } from '@google/genai'
-import HenrySDK from '@henrylabs/sdk'
 
+import { describeBudgetStatus, getBudgetStatus } from '@/lib/budget'
+import { getCatalogProvider } from '@/lib/catalog'
+import { decodeCursor, encodeCursor } from '@/lib/catalog/cursor'
+import {
+  hasSearchFilters,
+  matchesSearchFilters,
+  type SearchFilterKey,
+} from '@/lib/catalog/filters'
+import { getImageEditProvider } from '@/lib/image-edit'
+import { cancelTryOnJob, startTryOnJob } from '@/lib/image-edit/jobs'
+import type { TryOnRequest } from '@/lib/image-edit/try-on'
+import type { SharedOutfitInput } from '@/lib/outfit-share'
+import { loadSharedOutfit, saveSharedOutfit } from '@/lib/outfit-share-store'
+import { getSlotDisplayLabel } from '@/lib/slots'
 import type {
-  ProductSummary,
+  ProductAvailability,
+  ProductDetails,
+  ProductSearchPage,
+  PurchaseResult,
+  SearchFilters,
   SelectedWardrobeItem,
+  SharedOutfit,
+  ShopperBudget,
   SlotId,
-  WardrobeSlotImage,
 } from '@/lib/types'
 
-const henryClient = new HenrySDK({
-  apiKey: process.env.HENRY_API_KEY!,
-  environment: 'sandbox',
-})
-
-const geminiClient = process.env.GEMINI_API_KEY
-  ? new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-    })
-  : null
-
-const baseGeminiConfig = {
-  temperature: 0,
-  responseModalities: ['IMAGE', 'TEXT'],
-  imageConfig: {
-    imageSize: '1K',
-  },
-}
-
-const geminiModel = 'gemini-2.5-flash-image'
-
-const SLOT_DISPLAY_LABELS: Record<SlotId, string> = {
-  head: 'Headwear',
-  chest: 'Top',
-  waist: 'Waist',
-  legs: 'Bottom',
-  feet: 'Footwear',
-  ears: 'Accessory',
-  neck: 'Accessory',
-  bag: 'Accessory',
-  hand: 'Accessory',
-  ring: 'Accessory',
-}
-
-const LAYERING_ORDER: SlotId[] = [
-  'legs',
-  'feet',
-  'chest',
-  'head',
-  'bag',
-  'hand',
-  'neck',
-  'ears',
-  'ring',
-  'waist',
-]
-
-const MAX_GARMENTS_PER_PASS = 2
-
 const MERCHANT_ADDRESSES = [
   '0xd4540357f53ac4beff49acfce8ea1610a158494e',
   '0xac4db5ac3caae375c0d29bf5c0297caa2c3b4cf7',
@@ -93,7 +61,11 @@ const formatCurrencyForPrompt = (price: number, currency: string) => {
 const createPurchaseOrder = (
   items: SelectedWardrobeItem[],
 ): PurchaseOrderItem[] => {
-  return items.map((item, index) => {
+  // Multi-slot garments are bought once, however many slots they fill.
+  const uniqueItems = items.filter(
+    (item, index) => items.findIndex((other) => other.id === item.id) === index,
+  )
+  return uniqueItems.map((item, index) => {
     const normalizedPrice = Number(item.price)
     if (!Number.isFinite(normalizedPrice) || normalizedPrice <= 0) {
       throw new Error(
@@ -121,7 +93,7 @@ const createPurchaseOrder = (
 const buildPurchasePrompt = (items: PurchaseOrderItem[]) => {
   const purchaseSummary = items
     .map((item, index) => {
-      const slotLabel = SLOT_DISPLAY_LABELS[item.slotId] ?? item.slotId
+      const slotLabel = getSlotDisplayLabel(item.slotId)
       const formattedPrice = formatCurrencyForPrompt(item.price, item.currency)
       const formattedSendAmount = formatCurrencyForPrompt(
         item.sendAmount,
@@ -158,283 +130,131 @@ const buildPurchasePrompt = (items: PurchaseOrderItem[]) => {
     .join('\n\n')
 }
 
-const ensureGeminiClient = () => {
-  if (!geminiClient) {
-    throw new Error('GEMINI_API_KEY must be configured to use this feature.')
-  }
-  return geminiClient
-}
-
-const dataUrlToBuffer = (
-  dataUrl: string,
-): { buffer: Buffer; mimeType: string } => {
-  const matches = dataUrl.match(/^data:(.+);base64,(.*)$/)
-  if (!matches) {
-    throw new Error('Invalid portrait data URL.')
-  }
-  const mimeType = matches[1] || 'image/png'
-  const base64 = matches[2]
-  return {
-    mimeType,
-    buffer: Buffer.from(base64, 'base64'),
-  }
-}
-
-async function fetchImageBufferFromUrl(
-  url: string,
-  label: string,
-): Promise<Buffer> {
-  const response = await fetch(url)
-  if (!response.ok) {
-    throw new Error(`Failed to load ${label} from ${url}`)
-  }
-  const arrayBuffer = await response.arrayBuffer()
-  return Buffer.from(arrayBuffer)
-}
+export const startOutfitImageJob = async (
+  request: TryOnRequest,
+): Promise<{ id: string }> => ({ id: startTryOnJob(request) })
 
-async function composeGarmentWithGemini({
-  portraitBuffer,
-  portraitMimeType,
-  garments,
-  prompt,
-  modelVersion,
-  seed,
-}: {
-  portraitBuffer: Buffer
-  portraitMimeType: string
-  garments: Array<{ buffer: Buffer; mimeType: string; label: string }>
-  prompt: string
-  modelVersion?: string
-  seed?: number | null
-}): Promise<Buffer> {
-  const client = ensureGeminiClient()
-
-  const contents = [
-    {
-      role: 'user' as const,
-      parts: [
-        {
-          text: prompt,
-        },
-        {
-          inlineData: {
-            mimeType: portraitMimeType,
-            data: portraitBuffer.toString('base64'),
-          },
-        },
-        ...garments.map((garment) => ({
-          inlineData: {
-            mimeType: garment.mimeType,
-            data: garment.buffer.toString('base64'),
-          },
-        })),
-      ],
-    },
-  ]
+export const cancelOutfitImageJob = async (id: string): Promise<boolean> =>
+  cancelTryOnJob(id)
 
-  const response = await client.models.generateContentStream({
-    model: modelVersion ?? geminiModel,
-    config: {
-      ...baseGeminiConfig,
-      responseModalities: ['IMAGE'],
-      seed: seed ?? undefined,
-    },
-    contents,
+export const removePortraitBackground = async (
+  buffer: Buffer,
+  mimeType?: string | null,
+): Promise<{ buffer: Buffer; mimeType: string }> =>
+  getImageEditProvider().removeBackground({
+    buffer,
+    mimeType: mimeType || 'image/png',
   })
 
-  for await (const chunk of response) {
-    const candidate = chunk.candidates?.[0]
-    const parts = candidate?.content?.parts ?? []
-    for (const part of parts) {
-      if (part.inlineData?.data) {
-        return Buffer.from(part.inlineData.data, 'base64')
-      }
-    }
-  }
-
-  throw new Error('Gemini did not return an updated portrait.')
-}
-
-export const generateOutfitImage = async ({
-  portrait,
-  slots,
-  modelVersion,
-  seed,
+export const searchProducts = async ({
+  query,
+  limit = 10,
+  cursor,
+  filters,
 }: {
-  portrait: { buffer?: Buffer; mimeType?: string; dataUrl?: string }
-  slots: Record<SlotId, WardrobeSlotImage | null>
-  modelVersion?: string
-  seed?: number | null
-}): Promise<{ image: string }> => {
-  const slotAssets: Array<{ slot: SlotId; buffer: Buffer; mimeType: string }> =
-    []
-
-  for (const slot of LAYERING_ORDER) {
-    const asset = slots[slot]
-    if (!asset) continue
-
-    if (asset.buffer) {
-      slotAssets.push({
-        slot,
-        buffer: asset.buffer,
-        mimeType: asset.mimeType ?? 'image/png',
-      })
-      continue
-    }
-
-    if (!asset.imageUrl) continue
-    const buffer = await fetchImageBufferFromUrl(asset.imageUrl, `slot ${slot}`)
-    slotAssets.push({
-      slot,
-      buffer,
-      mimeType: asset.mimeType ?? 'image/png',
-    })
-  }
-
-  if (!slotAssets.length) {
-    throw new Error('At least one slot needs an image to render an outfit.')
+  query: string
+  limit?: number
+  cursor?: string | null
+  filters?: SearchFilters | null
+}): Promise<ProductSearchPage> => {
+  const offset = cursor ? decodeCursor(cursor)?.offset : 0
+  if (offset === undefined) {
+    throw new Error('Invalid search cursor.')
   }
 
-  let portraitBuffer = portrait.buffer
-  let portraitMimeType = portrait.mimeType
-  if (!portraitBuffer && portrait.dataUrl) {
-    const parsed = dataUrlToBuffer(portrait.dataUrl)
-    portraitBuffer = parsed.buffer
-    portraitMimeType = parsed.mimeType
-  }
-  if (!portraitBuffer) {
-    throw new Error('A processed portrait is required before generating.')
-  }
-  const resolvedPortraitMimeType = portraitMimeType || 'image/png'
-
-  let workingPortrait = portraitBuffer
-
-  for (let i = 0; i < slotAssets.length; i += MAX_GARMENTS_PER_PASS) {
-    const passSlice = slotAssets.slice(i, i + MAX_GARMENTS_PER_PASS)
-    const garmentSummary = passSlice
-      .map(({ slot }, index) => {
-        const label = SLOT_DISPLAY_LABELS[slot] ?? slot
-        return `${index + 1}. ${label} overlay (slot: ${slot})`
-      })
-      .join('\n')
-
-    const prompt = [
-      'You are a virtual wardrobe stylist for apparel ecommerce.',
-      'Keep the base portrait exactly the same person, including face, body, pose, lighting, framing, and background. Do not regenerate or replace the subject.',
-      'Maintain the full-body framing from head through feet so footwear remains visible; stay inside the original 2:3 portrait bounds with approximately five percent headroom and footroom.',
-      passSlice.length > 1
-        ? 'Apply all garments in this pass simultaneously without changing the person.'
-        : 'Apply the garment listed below without changing the person.',
-      'Blend the garments naturally on top of the existing portrait and maintain realistic proportions.',
-      'Return only the updated portrait image (no standalone garment cutouts).',
-      garmentSummary ? `Garments to apply:\n${garmentSummary}` : null,
-    ]
-      .filter(Boolean)
-      .join('\n\n')
-
-    workingPortrait = await composeGarmentWithGemini({
-      portraitBuffer: workingPortrait,
-      portraitMimeType: resolvedPortraitMimeType,
-      garments: passSlice.map(({ buffer, mimeType, slot }) => ({
-        buffer,
-        mimeType,
-        label: SLOT_DISPLAY_LABELS[slot] ?? slot,
-      })),
-      prompt,
-      modelVersion,
-      seed,
-    })
-  }
-
-  return {
-    image: `data:${resolvedPortraitMimeType};base64,${workingPortrait.toString(
-      'base64',
-    )}`,
-  }
-}
+  const provider = getCatalogProvider()
+  const activeFilters =
+    filters && hasSearchFilters(filters) ? filters : undefined
+  const unsupportedFilters = activeFilters
+    ? (Object.keys(activeFilters) as SearchFilterKey[]).filter(
+        (key) => !provider.supportedFilters.includes(key),
+      )
+    : []
 
-export const removeBackgroundWithGoogle = async (
-  buffer: Buffer,
-  mimeType?: string | null,
-): Promise<{ buffer: Buffer; mimeType: string }> => {
-  const client = ensureGeminiClient()
-
-  const contents = [
-    {
-      role: 'user' as const,
-      parts: [
-        {
-          text: [
-            'Isolate the individual from the supplied portrait without altering their identity, pose, or lighting.',
-            'Extend the composition so the subject appears as a full-body portrait inside a 2:3 frame with roughly five percent headroom and footroom, keeping proportions natural.',
-            'Scale and center the subject consistently, ensuring the head nears the top margin without clipping and feet stay inside the frame.',
-            'Ensure both hands are clearly visible and unobstructed (not hidden in pockets, behind the body, or outside the frame).',
-            'Render the background as pure white (#FFFFFF) with no gradients, shadows, or objects.',
-          ].join(' '),
-        },
-        {
-          inlineData: {
-            mimeType: mimeType ?? 'image/png',
-            data: buffer.toString('base64'),
-          },
-        },
-      ],
-    },
+  // Catalogs that can't filter on color or category still benefit from
+  // seeing those words in the query itself.
+  const providerQuery = [
+    query,
+    unsupportedFilters.includes('color') ? activeFilters?.color : null,
+    unsupportedFilters.includes('category') ? activeFilters?.category : null,
   ]
+    .filter(Boolean)
+    .join(' ')
 
-  const response = await client.models.generateContentStream({
-    model: geminiModel,
-    config: baseGeminiConfig,
-    contents,
+  const result = await provider.search({
+    query: providerQuery,
+    limit,
+    offset,
+    filters: activeFilters,
   })
 
-  let chunkCount = 0
-  for await (const chunk of response) {
-    chunkCount++
-    const candidate = chunk.candidates?.[0]
-    const parts = candidate?.content?.parts ?? []
-    for (const part of parts) {
-      if (part.inlineData?.data) {
-        const resultMimeType = part.inlineData.mimeType || 'image/png'
-        return {
-          buffer: Buffer.from(part.inlineData.data, 'base64'),
-          mimeType: resultMimeType,
-        }
-      }
-    }
-  }
+  const products =
+    activeFilters && unsupportedFilters.length
+      ? result.products.filter((product) =>
+          matchesSearchFilters(
+            product,
+            activeFilters,
+            provider.supportedFilters,
+          ),
+        )
+      : result.products
 
-  throw new Error(
-    `No image data found in Google GenAI response after processing ${chunkCount} chunks.`,
-  )
+  return {
+    products,
+    // Advance past everything the provider returned, including products
+    // that were filtered out here, so the next page doesn't repeat them.
+    nextCursor: result.hasMore
+      ? encodeCursor(offset + result.products.length)
+      : null,
+  }
 }
 
-export const searchProducts = async (
-  query: string,
-  limit: number = 10,
-): Promise<ProductSummary[]> => {
-  const search = await henryClient.products.search({
-    query,
-    limit,
-  })
+export const getProductDetails = async (
+  productId: string,
+): Promise<ProductDetails | null> => {
+  return getCatalogProvider().getDetails(productId)
+}
 
-  return search.data as ProductSummary[]
+export const getProductAvailability = async (
+  productId: string,
+): Promise<ProductAvailability | null> => {
+  return getCatalogProvider().getAvailability(productId)
 }
 
-export const getProductDetails = async (productId: string) => {
-  const detail = await henryClient.products.retrieveDetails({
-    productId,
-  })
+export const shareOutfit = async (
+  snapshot: SharedOutfitInput,
+): Promise<{ id: string }> => {
+  const { id } = saveSharedOutfit(snapshot)
+  return { id }
+}
 
-  return detail.data.productResults
+export const getSharedOutfit = async (
+  id: string,
+): Promise<SharedOutfit | null> => {
+  return loadSharedOutfit(id)
 }
 
-export const runAgent = async (items: SelectedWardrobeItem[]) => {
+export const runAgent = async (
+  items: SelectedWardrobeItem[],
+  {
+    budget = null,
+    overrideBudget = false,
+  }: { budget?: ShopperBudget | null; overrideBudget?: boolean } = {},
+): Promise<PurchaseResult> => {
   if (!Array.isArray(items) || items.length === 0) {
     throw new Error('At least one equipped item is required to purchase.')
   }
 
   const purchaseOrder = createPurchaseOrder(items)
+
+  const budgetStatus = getBudgetStatus(purchaseOrder, budget)
+  if (budgetStatus.isOverBudget && !overrideBudget) {
+    return {
+      status: 'over-budget',
+      message: `${describeBudgetStatus(budgetStatus)} Confirm the purchase to go over budget.`,
+    }
+  }
+
   const prompt = buildPurchasePrompt(purchaseOrder)
 
   try {
@@ -515,7 +335,7 @@ export const runAgent = async (items: SelectedWardrobeItem[]) => {
     console.log('Response:', finalResult)
     console.log('─'.repeat(50))
     console.log('\n✓ Purchase agent run completed!')
-    return finalResult
+    return { status: 'completed', result: finalResult }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error)
     console.error('❌ Error during Locus purchase run:', errorMessage)
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+
+import { getProductAvailability, getProductDetails } from '@/actions'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params
+  const productId = id?.trim()
+
+  if (!productId) {
+    return NextResponse.json(
+      { error: 'Product ID is required.' },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const [product, availability] = await Promise.all([
+      getProductDetails(productId),
+      // Stock is a nice-to-have on the detail view, so don't fail the whole
+      // request when the catalog can't report it.
+      getProductAvailability(productId).catch((error) => {
+        console.warn(`Availability lookup failed for ${productId}:`, error)
+        return null
+      }),
+    ])
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found.' }, { status: 404 })
+    }
+
+    return NextResponse.json({ product, availability })
+  } catch (error) {
+    console.error('Product detail lookup failed:', error)
+    return NextResponse.json(
+      { error: 'Could not load product details. Please try again.' },
+      { status: 500 },
+    )
+  }
+}
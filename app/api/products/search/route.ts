@@ -1,9 +1,33 @@
 import { NextResponse } from 'next/server'
 
 import { searchProducts } from '@/actions'
+import { decodeCursor } from '@/lib/catalog/cursor'
+import { searchFiltersSchema } from '@/lib/catalog/filters'
+import {
+  isOutfitRequest,
+  planOutfitSearch,
+  runOutfitPlan,
+} from '@/lib/catalog/planner'
+import { buildSearchCacheKey, searchCache } from '@/lib/catalog/search-cache'
+import { withSlotCandidates } from '@/lib/slot-classifier'
+import type { SearchFilters } from '@/lib/types'
 
 const DEFAULT_LIMIT = 4
 const MAX_LIMIT = 15
+const MIN_RESULTS_PER_PLANNED_SLOT = 2
+
+const cachedSearch = async (params: {
+  query: string
+  limit: number
+  cursor: string | null
+  filters: SearchFilters
+}) => {
+  const { value, status } = await searchCache.getOrLoad(
+    buildSearchCacheKey(params),
+    () => searchProducts(params),
+  )
+  return { page: value, cacheStatus: status }
+}
 
 export async function POST(request: Request) {
   let payload: unknown
@@ -38,9 +62,89 @@ export async function POST(request: Request) {
       ? Math.max(1, Math.min(MAX_LIMIT, Math.floor(limitInput)))
       : DEFAULT_LIMIT
 
+  const cursorInput = (payload as { cursor?: unknown })?.cursor
+  const cursor =
+    typeof cursorInput === 'string' && cursorInput ? cursorInput : null
+
+  if (cursor && !decodeCursor(cursor)) {
+    return NextResponse.json(
+      { error: 'Invalid search cursor. Start a new search.' },
+      { status: 400 },
+    )
+  }
+
+  const filtersInput = (payload as { filters?: unknown })?.filters
+  const parsedFilters = searchFiltersSchema.safeParse(filtersInput ?? {})
+
+  if (!parsedFilters.success) {
+    const issue = parsedFilters.error.issues[0]
+    return NextResponse.json(
+      {
+        error: `Invalid search filters${
+          issue?.path.length ? ` (${issue.path.join('.')})` : ''
+        }: ${issue?.message ?? 'check the filter values.'}`,
+      },
+      { status: 400 },
+    )
+  }
+
+  const filters = parsedFilters.data
+
+  // `outfit: true` forces the planner, `false` disables it, and leaving it
+  // out lets outfit-level phrasing ("a full beach day look") opt in.
+  const outfitInput = (payload as { outfit?: unknown })?.outfit
+  const shouldPlanOutfit =
+    typeof outfitInput === 'boolean' ? outfitInput : isOutfitRequest(query)
+
   try {
-    const products = await searchProducts(query, limit)
-    return NextResponse.json({ products })
+    if (shouldPlanOutfit && !cursor) {
+      const plan = planOutfitSearch(query)
+      const perSlotLimit = Math.max(
+        MIN_RESULTS_PER_PLANNED_SLOT,
+        Math.ceil(limit / plan.slots.length),
+      )
+      // Each slot query already names what it is looking for, so a category
+      // filter would only empty the other slots.
+      const slotFilters = { ...filters, category: undefined }
+      const cacheStatuses: string[] = []
+      const { products, slots } = await runOutfitPlan(plan, async (slot) => {
+        const { page, cacheStatus } = await cachedSearch({
+          query: slot.query,
+          limit: perSlotLimit,
+          cursor: null,
+          filters: slotFilters,
+        })
+        cacheStatuses.push(cacheStatus)
+        return page
+      })
+
+      return NextResponse.json(
+        {
+          products: products.map(withSlotCandidates),
+          nextCursor: null,
+          filters,
+          plan: { ...plan, slots, paginated: false },
+        },
+        {
+          headers: {
+            'X-Cache': cacheStatuses.every((status) => status === 'HIT')
+              ? 'HIT'
+              : 'MISS',
+          },
+        },
+      )
+    }
+
+    const { page, cacheStatus } = await cachedSearch({
+      query,
+      limit,
+      cursor,
+      filters,
+    })
+    return NextResponse.json(
+      { ...page, products: page.products.map(withSlotCandidates), filters },
+      { headers: { 'X-Cache': cacheStatus } },
+    )
   } catch (error) {
     console.error('Product search failed:', error)
     return NextResponse.json(
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server'
+
+import { MAX_SESSION_BYTES } from '@/lib/session/limits'
+import {
+  sessionIdSchema,
+  sessionStore,
+  wardrobeSessionSchema,
+} from '@/lib/session/server-store'
+import type { WardrobeSession } from '@/lib/types'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const parseSessionId = async ({ params }: RouteContext) => {
+  const { id } = await params
+  const parsed = sessionIdSchema.safeParse(id)
+  return parsed.success ? parsed.data : null
+}
+
+const invalidSessionId = () =>
+  NextResponse.json({ error: 'Invalid session id.' }, { status: 400 })
+
+const sessionTooLarge = () =>
+  NextResponse.json(
+    { error: 'Session is too large to store.' },
+    { status: 413 },
+  )
+
+// Counts the bytes actually received, since Content-Length can be missing or
+// wrong. Returns null as soon as the body goes over the limit.
+const readBodyText = async (request: Request, maxBytes: number) => {
+  if (!request.body) return ''
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+const parseJson = (text: string) => {
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    return null
+  }
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  const id = await parseSessionId(context)
+  if (!id) return invalidSessionId()
+
+  const session = sessionStore.get(id)
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found.' }, { status: 404 })
+  }
+  return NextResponse.json({ session })
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const id = await parseSessionId(context)
+  if (!id) return invalidSessionId()
+
+  const contentLength = Number(request.headers.get('content-length') ?? 0)
+  if (contentLength > MAX_SESSION_BYTES) return sessionTooLarge()
+
+  const text = await readBodyText(request, MAX_SESSION_BYTES)
+  if (text === null) return sessionTooLarge()
+
+  const parsed = wardrobeSessionSchema.safeParse(parseJson(text))
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return NextResponse.json(
+      {
+        error: `Invalid session${issue?.path.length ? ` at ${issue.path.join('.')}` : ''}: ${issue?.message ?? 'unknown error'}`,
+      },
+      { status: 400 },
+    )
+  }
+  if (parsed.data.id !== id) {
+    return NextResponse.json(
+      { error: 'Session id does not match the URL.' },
+      { status: 400 },
+    )
+  }
+
+  sessionStore.set(id, parsed.data as WardrobeSession)
+  return NextResponse.json({ ok: true, updatedAt: parsed.data.updatedAt })
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const id = await parseSessionId(context)
+  if (!id) return invalidSessionId()
+
+  sessionStore.delete(id)
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+
+import {
+  isFinalTryOnJobEvent,
+  subscribeToTryOnJob,
+} from '@/lib/image-edit/jobs'
+import type { TryOnJobEvent } from '@/lib/types'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const dynamic = 'force-dynamic'
+
+// Server-sent events: one `data:` line per TryOnJobEvent, closed after the
+// job succeeds, fails, or is cancelled.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const encoder = new TextEncoder()
+  const pending: TryOnJobEvent[] = []
+  let send = (event: TryOnJobEvent) => {
+    pending.push(event)
+  }
+
+  // Subscribing replays past events synchronously, so buffer them until the
+  // stream exists.
+  const unsubscribe = subscribeToTryOnJob(id, (event) => send(event))
+  if (!unsubscribe) {
+    return NextResponse.json(
+      { error: 'Try-on job not found.' },
+      { status: 404 },
+    )
+  }
+
+  // Set by whichever side ends the stream first: the job finishing, the
+  // request aborting, or the consumer cancelling.
+  let isClosed = false
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (isClosed) return
+        isClosed = true
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {
+          // Already closed or errored by the runtime.
+        }
+      }
+      send = (event) => {
+        if (isClosed) return
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+        if (isFinalTryOnJobEvent(event)) close()
+      }
+      pending.splice(0).forEach(send)
+      request.signal.addEventListener('abort', close)
+    },
+    cancel() {
+      isClosed = true
+      unsubscribe()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server'
 
-import { removeBackgroundWithGoogle } from '@/actions'
+import { removePortraitBackground } from '@/actions'
 
 export async function POST(request: Request) {
   const formData = await request.formData()
@@ -17,7 +17,7 @@ export async function POST(request: Request) {
   const buffer = Buffer.from(arrayBuffer)
 
   try {
-    const result = await removeBackgroundWithGoogle(buffer, portrait.type)
+    const result = await removePortraitBackground(buffer, portrait.type)
     const dataUrl = `data:${result.mimeType};base64,${result.buffer.toString(
       'base64',
     )}`
@@ -0,0 +1,31 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+import { getSharedOutfit } from '@/actions'
+import { SharedOutfitView } from '@/components/shared-outfit'
+
+type SharedOutfitPageProps = {
+  params: Promise<{ id: string }>
+}
+
+export const generateMetadata = async ({
+  params,
+}: SharedOutfitPageProps): Promise<Metadata> => {
+  const { id } = await params
+  const outfit = await getSharedOutfit(id)
+  return { title: outfit ? `${outfit.name} · Shared outfit` : 'Shared outfit' }
+}
+
+export default async function SharedOutfitPage({
+  params,
+}: SharedOutfitPageProps) {
+  const { id } = await params
+  const outfit = await getSharedOutfit(id)
+  if (!outfit) notFound()
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted font-sans">
+      <SharedOutfitView outfit={outfit} />
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState, type FormEvent } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { BUDGET_CURRENCIES, parseBudget } from '@/lib/budget'
+import { formatCurrency } from '@/lib/currency'
+import type { ShopperBudget } from '@/lib/types'
+
+interface BudgetSettingsProps {
+  budget: ShopperBudget | null
+  onChange: (budget: ShopperBudget | null) => void
+}
+
+export function BudgetSettings({ budget, onChange }: BudgetSettingsProps) {
+  const [amount, setAmount] = useState(() =>
+    budget ? String(budget.amount) : '',
+  )
+  const [currency, setCurrency] = useState(budget?.currency ?? 'USD')
+  const [error, setError] = useState<string | null>(null)
+  const currencies = BUDGET_CURRENCIES.includes(currency)
+    ? BUDGET_CURRENCIES
+    : [currency, ...BUDGET_CURRENCIES]
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const parsed = parseBudget(amount)
+    if (parsed === null) {
+      setError('Enter an amount greater than zero.')
+      return
+    }
+    setError(null)
+    onChange({ amount: parsed.amount, currency })
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-md space-y-4 rounded-3xl border border-black/5 bg-white/80 p-6 text-left shadow-lg">
+      <div className="space-y-1">
+        <h2 className="text-sm font-semibold">Budget</h2>
+        <p className="text-xs text-muted-foreground">
+          {budget
+            ? `Purchases over ${formatCurrency(
+                budget.amount,
+                budget.currency,
+              )} need your confirmation.`
+            : 'Set a spending cap for each outfit. Purchases over it need your confirmation.'}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="flex flex-1 items-center gap-2 rounded-full border border-black/10 px-4 py-2 text-sm">
+          <select
+            value={currency}
+            onChange={(event) => setCurrency(event.target.value)}
+            aria-label="Budget currency"
+            className="bg-transparent text-muted-foreground outline-none">
+            {currencies.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            inputMode="decimal"
+            min="1"
+            step="any"
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+            placeholder="250"
+            aria-label="Budget amount"
+            className="min-w-0 flex-1 bg-transparent outline-none"
+          />
+        </label>
+        <Button type="submit" className="cursor-pointer">
+          Save
+        </Button>
+        {budget ? (
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              setAmount('')
+              setError(null)
+              onChange(null)
+            }}
+            className="cursor-pointer">
+            Clear
+          </Button>
+        ) : null}
+      </div>
+      {error ? (
+        <p className="text-xs font-semibold text-red-500">{error}</p>
+      ) : null}
+    </form>
+  )
+}
@@ -2,15 +2,78 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react'
 
+import { BudgetSettings } from '@/components/budget-settings'
 import { AppDock } from '@/components/dock'
 import { Transactions } from '@/components/transcactions'
 import { Button } from '@/components/ui/button'
 import { TextEffect } from '@/components/ui/text-effect'
 import { Wardrobe, type WardrobeHandle } from '@/components/wardrobe'
-import type { ProductSummary } from '@/lib/types'
+import {
+  describeBudgetStatus,
+  getBudgetStatus,
+  normalizeCurrency,
+  parseBudget,
+} from '@/lib/budget'
+import { describeSearchFilters } from '@/lib/catalog/filters'
+import { getEquippedItems } from '@/lib/equipment'
+import {
+  clearWardrobeSession,
+  getSessionId,
+  loadWardrobeSession,
+  saveWardrobeSession,
+} from '@/lib/session'
+import type {
+  IntakeBatch,
+  ProductSearchPage,
+  ProductSummary,
+  SearchFilters,
+  ShopperBudget,
+  WardrobeSearchRequest,
+  WardrobeSessionState,
+} from '@/lib/types'
 
 type Screen = 'intake' | 'wardrobe' | 'transactions' | 'settings'
 
+const SESSION_SAVE_DELAY_MS = 400
+
+const fetchProductPage = async ({
+  query,
+  limit,
+  cursor,
+  filters,
+  outfit,
+}: WardrobeSearchRequest): Promise<ProductSearchPage> => {
+  const response = await fetch('/api/products/search', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      query,
+      limit,
+      cursor,
+      filters,
+      outfit,
+    }),
+  })
+
+  const data = (await response.json().catch(() => null)) as
+    (Partial<ProductSearchPage> & { error?: string }) | null
+
+  if (!response.ok || !data?.products) {
+    throw new Error(
+      data?.error ||
+        'Could not find wardrobe items for that request. Try a different description.',
+    )
+  }
+
+  return {
+    products: data.products,
+    nextCursor: data.nextCursor ?? null,
+    plan: data.plan,
+  }
+}
+
 export function Content({
   initialProducts,
 }: {
@@ -24,13 +87,124 @@ export function Content({
     null,
   )
   const [wardrobeError, setWardrobeError] = useState<string | null>(null)
-  const [intakeBatches, setIntakeBatches] = useState<
-    Array<{ id: string; query: string; count: number }>
-  >([])
+  const [intakeBatches, setIntakeBatches] = useState<IntakeBatch[]>([])
+  const [lastSearch, setLastSearch] = useState<WardrobeSearchRequest | null>(
+    null,
+  )
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [isSessionRestored, setIsSessionRestored] = useState(false)
+  const [wardrobeSessionState, setWardrobeSessionState] =
+    useState<WardrobeSessionState | null>(null)
+  const [budget, setBudget] = useState<ShopperBudget | null>(null)
+  // Bumped on "start over" so the wardrobe remounts with empty state.
+  const [wardrobeKey, setWardrobeKey] = useState(0)
   const wardrobeRef = useRef<WardrobeHandle | null>(null)
 
+  useEffect(() => {
+    let cancelled = false
+    const id = getSessionId()
+
+    loadWardrobeSession(id)
+      .then((session) => {
+        if (cancelled || !session) return
+        setWardrobeProducts(session.intake.products)
+        setIntakeBatches(session.intake.batches)
+        setWardrobeSearchQuery(session.intake.lastQuery)
+        setLastSearch(session.intake.lastSearch)
+        setWardrobeSessionState(session.wardrobe)
+        setBudget(session.budget ?? null)
+        // Shared outfit imports land here and should open straight into
+        // the wardrobe rather than the intake screen.
+        const params = new URLSearchParams(window.location.search)
+        if (params.get('open') === 'wardrobe' && session.wardrobe) {
+          setActiveScreen('wardrobe')
+          window.history.replaceState(null, '', window.location.pathname)
+        }
+      })
+      .finally(() => {
+        if (cancelled) return
+        setSessionId(id)
+        setIsSessionRestored(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    // Saving before the restore finishes would overwrite it with empty state.
+    if (!isSessionRestored || !sessionId) return
+
+    const timeoutId = setTimeout(() => {
+      saveWardrobeSession({
+        id: sessionId,
+        version: 2,
+        updatedAt: new Date().toISOString(),
+        intake: {
+          products: wardrobeProducts,
+          batches: intakeBatches,
+          lastQuery: wardrobeSearchQuery,
+          lastSearch,
+        },
+        wardrobe: wardrobeSessionState,
+        budget,
+      }).catch((error) => {
+        console.warn('Could not save the wardrobe session:', error)
+      })
+    }, SESSION_SAVE_DELAY_MS)
+
+    return () => clearTimeout(timeoutId)
+  }, [
+    budget,
+    intakeBatches,
+    isSessionRestored,
+    lastSearch,
+    sessionId,
+    wardrobeProducts,
+    wardrobeSearchQuery,
+    wardrobeSessionState,
+  ])
+
+  const handleStartOver = useCallback(async () => {
+    if (
+      !window.confirm(
+        'Start over? This clears your queued looks, saved items, equipped slots and portrait.',
+      )
+    ) {
+      return
+    }
+
+    setWardrobeProducts([])
+    setIntakeBatches([])
+    setWardrobeSearchQuery(null)
+    setLastSearch(null)
+    setWardrobeError(null)
+    setWardrobeSessionState(null)
+    setWardrobeKey((key) => key + 1)
+    setActiveScreen('intake')
+
+    if (sessionId) {
+      try {
+        setSessionId(await clearWardrobeSession(sessionId))
+      } catch (error) {
+        console.warn('Could not clear the wardrobe session:', error)
+      }
+    }
+  }, [sessionId])
+
   const handleWardrobeSearch = useCallback(
-    async ({ query, limit }: { query?: string; limit?: number }) => {
+    async ({
+      query,
+      limit,
+      filters,
+      outfit,
+    }: {
+      query?: string
+      limit?: number
+      filters?: SearchFilters
+      outfit?: boolean
+    }) => {
       const normalizedQuery = query?.trim()
       if (!normalizedQuery) {
         const message =
@@ -43,30 +217,19 @@ export function Content({
       setWardrobeError(null)
 
       try {
-        const response = await fetch('/api/products/search', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            query: normalizedQuery,
-            limit,
-          }),
+        const { products, nextCursor, plan } = await fetchProductPage({
+          query: normalizedQuery,
+          limit,
+          filters,
+          outfit,
         })
 
-        const data = (await response.json().catch(() => null)) as {
-          products?: ProductSummary[]
-          error?: string
-        } | null
-
-        if (!response.ok || !data?.products) {
-          throw new Error(
-            data?.error ||
-              'Could not find wardrobe items for that request. Try a different description.',
-          )
-        }
-
-        const products = data.products
+        setLastSearch({
+          query: normalizedQuery,
+          limit,
+          filters,
+          cursor: nextCursor,
+        })
         setWardrobeProducts((prev) => {
           const map = new Map(prev.map((item) => [item.id, item]))
           products.forEach((product) => map.set(product.id, product))
@@ -79,11 +242,24 @@ export function Content({
             id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
             query: normalizedQuery,
             count: products.length,
+            filters: describeSearchFilters(filters),
+            plannedSlots: plan?.slots.map((slot) => slot.slotId) ?? [],
           },
           ...prev,
         ])
 
-        return `Queued ${products.length} items for "${normalizedQuery}".`
+        const filterSummary = describeSearchFilters(filters).join(', ')
+        if (plan) {
+          const slotSummary = plan.slots
+            .map((slot) => `${slot.count} for ${slot.slotId}`)
+            .join(', ')
+          return `Planned a full outfit for "${normalizedQuery}" and queued ${products.length} items: ${slotSummary}${
+            filterSummary ? ` (${filterSummary})` : ''
+          }. Outfit plans fetch one page per slot, so search for a single item to see more of it.`
+        }
+        return `Queued ${products.length} items for "${normalizedQuery}"${
+          filterSummary ? ` (${filterSummary})` : ''
+        }.`
       } catch (error) {
         const message =
           error instanceof Error
@@ -98,6 +274,25 @@ export function Content({
     [],
   )
 
+  // Failures are thrown so the wardrobe can stop auto-loading and offer a
+  // manual retry instead.
+  const handleLoadMoreProducts = useCallback(async () => {
+    if (!lastSearch?.cursor) return []
+
+    const { products, nextCursor } = await fetchProductPage(lastSearch)
+    setLastSearch((prev) =>
+      prev?.query === lastSearch.query ? { ...prev, cursor: nextCursor } : prev,
+    )
+    setIntakeBatches((prev) =>
+      prev.map((batch, index) =>
+        index === 0 && batch.query === lastSearch.query
+          ? { ...batch, count: batch.count + products.length }
+          : batch,
+      ),
+    )
+    return products
+  }, [lastSearch])
+
   const totalQueuedItems = wardrobeProducts.length
 
   const setScreen = useCallback(
@@ -147,9 +342,6 @@ export function Content({
       productId?: string
       productName?: string
     }) => {
-      if (!slotId) {
-        return 'Provide a wardrobe slot before equipping an item.'
-      }
       if (activeScreen !== 'wardrobe') {
         return 'Open the wardrobe before equipping items.'
       }
@@ -165,6 +357,90 @@ export function Content({
     [activeScreen],
   )
 
+  // Reads the active loadout from the persisted wardrobe state, so the
+  // budget can be reported from any screen.
+  const getActiveBudgetStatus = useCallback(
+    (activeBudget: ShopperBudget | null = budget) => {
+      const activeLoadout = wardrobeSessionState?.loadouts.find(
+        (loadout) => loadout.id === wardrobeSessionState.activeLoadoutId,
+      )
+      return getBudgetStatus(
+        getEquippedItems(activeLoadout?.equipped ?? {}).map(
+          ({ product }) => product,
+        ),
+        activeBudget,
+      )
+    },
+    [budget, wardrobeSessionState],
+  )
+
+  const handleVoiceSetBudget = useCallback(
+    ({ amount, currency }: { amount?: number | string; currency?: string }) => {
+      const parsed = parseBudget(amount)
+      if (parsed === null) {
+        return 'Tell me the budget as an amount, like 250 dollars.'
+      }
+      const nextCurrency = currency?.trim()
+        ? normalizeCurrency(currency)
+        : parsed.currency || budget?.currency || 'USD'
+      if (!nextCurrency) {
+        return `I don't recognize the currency "${currency}". Use a three-letter code like USD or EUR.`
+      }
+      const nextBudget = { amount: parsed.amount, currency: nextCurrency }
+      setBudget(nextBudget)
+      return `Budget set. ${describeBudgetStatus(
+        getActiveBudgetStatus(nextBudget),
+      )}`
+    },
+    [budget, getActiveBudgetStatus],
+  )
+
+  const handleVoiceBudgetStatus = useCallback(
+    () => describeBudgetStatus(getActiveBudgetStatus()),
+    [getActiveBudgetStatus],
+  )
+
+  const handleVoiceAutoComplete = useCallback(() => {
+    if (activeScreen !== 'wardrobe' || !wardrobeRef.current) {
+      return 'Open the wardrobe before auto-completing the outfit.'
+    }
+    return wardrobeRef.current.autoCompleteOutfit()
+  }, [activeScreen])
+
+  const handleVoiceReviewSuggestion = useCallback(
+    (params: { slotId?: string; accept: boolean }) => {
+      if (activeScreen !== 'wardrobe' || !wardrobeRef.current) {
+        return 'Open the wardrobe before reviewing suggestions.'
+      }
+      return wardrobeRef.current.reviewOutfitSuggestion(params)
+    },
+    [activeScreen],
+  )
+
+  const handleVoiceStartTryOn = useCallback(() => {
+    if (activeScreen !== 'wardrobe' || !wardrobeRef.current) {
+      return 'Open the wardrobe before starting a try-on.'
+    }
+    return wardrobeRef.current.startTryOn()
+  }, [activeScreen])
+
+  const handleVoiceTryOnProgress = useCallback(() => {
+    if (!wardrobeRef.current) return 'No try-on is running.'
+    return wardrobeRef.current.getTryOnProgress()
+  }, [])
+
+  const handleVoiceCancelTryOn = useCallback(async () => {
+    if (!wardrobeRef.current) return 'No try-on is running.'
+    return wardrobeRef.current.cancelTryOn()
+  }, [])
+
+  const handleVoiceUndo = useCallback(() => {
+    if (activeScreen !== 'wardrobe' || !wardrobeRef.current) {
+      return 'There is nothing to undo outside the wardrobe.'
+    }
+    return wardrobeRef.current.undoLastAction()
+  }, [activeScreen])
+
   return (
     <>
       {activeScreen === 'intake' && (
@@ -200,6 +476,12 @@ export function Content({
                       </p>
                       <p className="text-xs text-muted-foreground">
                         {batch.count} items saved
+                        {batch.filters.length
+                          ? ` · ${batch.filters.join(' · ')}`
+                          : null}
+                        {batch.plannedSlots.length
+                          ? ` · outfit plan: ${batch.plannedSlots.join(', ')}`
+                          : null}
                       </p>
                     </div>
                   ))
@@ -221,29 +503,54 @@ export function Content({
                 className="w-full">
                 Review wardrobe
               </Button>
+              {totalQueuedItems > 0 || wardrobeSessionState ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => {
+                    void handleStartOver()
+                  }}
+                  className="w-full">
+                  Start over
+                </Button>
+              ) : null}
             </div>
           </div>
         </div>
       )}
       {activeScreen === 'wardrobe' && (
         <Wardrobe
+          key={wardrobeKey}
           ref={wardrobeRef}
           initialProducts={wardrobeProducts}
           isLoading={isWardrobeLoading}
           lastQuery={wardrobeSearchQuery}
           errorMessage={wardrobeError}
+          hasMoreProducts={Boolean(lastSearch?.cursor)}
+          onLoadMoreProducts={handleLoadMoreProducts}
+          sessionState={wardrobeSessionState}
+          onSessionStateChange={setWardrobeSessionState}
+          budget={budget}
+          onStartOver={() => {
+            void handleStartOver()
+          }}
         />
       )}
       {activeScreen === 'transactions' && <Transactions />}
       {activeScreen === 'settings' && (
         <div className="relative flex min-h-screen w-full flex-col bg-white">
-          <div className="flex flex-1 flex-col items-center justify-center gap-4 p-6 text-center">
+          <div className="flex flex-1 flex-col items-center justify-center gap-6 p-6 text-center">
             <TextEffect per="char" preset="fade" className="text-center">
-              {'Settings coming soon'}
+              {'Settings'}
             </TextEffect>
+            <BudgetSettings
+              key={budget?.amount ?? 'none'}
+              budget={budget}
+              onChange={setBudget}
+            />
             <p className="text-sm text-muted-foreground max-w-md">
-              Voice preferences and account controls will live here. For now,
-              keep exploring outfits or check your recent transactions.
+              Voice preferences and account controls will live here too. You can
+              also ask your stylist to set or check your budget.
             </p>
           </div>
         </div>
@@ -253,6 +560,14 @@ export function Content({
         onSearchWardrobe={handleWardrobeSearch}
         onFinalizeWardrobe={handleFinalizeWardrobe}
         onEquipSlot={handleVoiceEquip}
+        onUndoLastAction={handleVoiceUndo}
+        onAutoCompleteOutfit={handleVoiceAutoComplete}
+        onReviewOutfitSuggestion={handleVoiceReviewSuggestion}
+        onSetBudget={handleVoiceSetBudget}
+        onGetBudgetStatus={handleVoiceBudgetStatus}
+        onStartTryOn={handleVoiceStartTryOn}
+        onGetTryOnProgress={handleVoiceTryOnProgress}
+        onCancelTryOn={handleVoiceCancelTryOn}
       />
     </>
   )
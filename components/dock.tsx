@@ -6,12 +6,91 @@ import { useCallback, useMemo, useState } from 'react'
 
 import { Dock, DockIcon, DockItem, DockLabel } from '@/components/ui/dock'
 import { Orb, type AgentState } from '@/components/ui/orb'
+import { normalizeCurrency } from '@/lib/budget'
+import type { SearchFilters } from '@/lib/types'
 
 const BASE_ORB_COLORS: [string, string] = ['#CADCFC', '#5F8FD3']
 const ACTIVE_ORB_COLORS: [string, string] = ['#FFFFFF', '#F56565']
 
 type Screen = 'intake' | 'wardrobe' | 'transactions' | 'settings'
 
+type VoiceSearchFilterParams = {
+  minPrice?: number | string
+  maxPrice?: number | string
+  currency?: string
+  merchants?: string | string[]
+  excludeMerchants?: string | string[]
+  color?: string
+  size?: string
+  category?: string
+}
+
+const toOptionalNumber = (value?: number | string) => {
+  if (value === undefined || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+// A spoken "zero" cap or negative floor is almost always a mishearing, and
+// the search route rejects it, so drop it rather than failing the whole search.
+const toOptionalPositive = (value?: number | string) => {
+  const parsed = toOptionalNumber(value)
+  return parsed !== undefined && parsed > 0 ? parsed : undefined
+}
+
+const toOptionalNonNegative = (value?: number | string) => {
+  const parsed = toOptionalNumber(value)
+  return parsed !== undefined && parsed >= 0 ? parsed : undefined
+}
+
+// "dollars" becomes USD; anything that isn't a known currency is dropped.
+const toOptionalCurrency = (value?: string) =>
+  value?.trim() ? (normalizeCurrency(value) ?? undefined) : undefined
+
+const toOptionalList = (value?: string | string[]) => {
+  const list = (Array.isArray(value) ? value : (value?.split(',') ?? []))
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  return list.length ? list : undefined
+}
+
+const toOptionalBoolean = (value?: boolean | string) => {
+  if (typeof value === 'boolean') return value
+  const normalized = value?.trim().toLowerCase()
+  if (normalized === 'true') return true
+  if (normalized === 'false') return false
+  return undefined
+}
+
+const toOptionalText = (value?: string) => value?.trim() || undefined
+
+// Voice tools send loosely typed values ("60", "Patagonia, Vissla"), so coerce
+// them before the search route validates them.
+const toSearchFilters = (
+  params: VoiceSearchFilterParams,
+): SearchFilters | undefined => {
+  const maxPrice = toOptionalPositive(params.maxPrice)
+  const minPrice = toOptionalNonNegative(params.minPrice)
+  const filters: SearchFilters = {
+    // A floor above the cap can't match anything, so keep just the cap.
+    minPrice:
+      minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice
+        ? undefined
+        : minPrice,
+    maxPrice,
+    currency: toOptionalCurrency(params.currency),
+    merchants: toOptionalList(params.merchants),
+    excludeMerchants: toOptionalList(params.excludeMerchants),
+    color: toOptionalText(params.color),
+    size: toOptionalText(params.size),
+    category: toOptionalText(params.category),
+  }
+  const entries = Object.entries(filters).filter(
+    ([, value]) => value !== undefined,
+  )
+  return entries.length ? Object.fromEntries(entries) : undefined
+}
+
 const dockItems: Array<{
   title: string
   icon: React.ReactNode
@@ -52,11 +131,21 @@ export function AppDock({
   onSearchWardrobe,
   onFinalizeWardrobe,
   onEquipSlot,
+  onUndoLastAction,
+  onAutoCompleteOutfit,
+  onReviewOutfitSuggestion,
+  onSetBudget,
+  onGetBudgetStatus,
+  onStartTryOn,
+  onGetTryOnProgress,
+  onCancelTryOn,
 }: {
   setScreen: (screen: Screen) => void
   onSearchWardrobe: (params: {
     query?: string
     limit?: number
+    filters?: SearchFilters
+    outfit?: boolean
   }) => Promise<string | undefined>
   onFinalizeWardrobe: () => string | Promise<string>
   onEquipSlot: (params: {
@@ -64,6 +153,20 @@ export function AppDock({
     productId?: string
     productName?: string
   }) => Promise<string>
+  onUndoLastAction: () => string
+  onAutoCompleteOutfit: () => string
+  onReviewOutfitSuggestion: (params: {
+    slotId?: string
+    accept: boolean
+  }) => string
+  onSetBudget: (params: {
+    amount?: number | string
+    currency?: string
+  }) => string
+  onGetBudgetStatus: () => string
+  onStartTryOn: () => string
+  onGetTryOnProgress: () => string
+  onCancelTryOn: () => Promise<string>
 }) {
   const [orbColors, setOrbColors] = useState<[string, string]>(BASE_ORB_COLORS)
   const [agentState, setAgentState] = useState<AgentState>(null)
@@ -89,14 +192,21 @@ export function AppDock({
       setWardrobeSearch: async ({
         query,
         limit,
+        outfit,
+        ...filterParams
       }: {
         query?: string
         limit?: number
-      }) => {
+        outfit?: boolean | string
+      } & VoiceSearchFilterParams) => {
         try {
           return (
-            (await onSearchWardrobe({ query, limit })) ||
-            'Wardrobe search updated.'
+            (await onSearchWardrobe({
+              query,
+              limit,
+              filters: toSearchFilters(filterParams),
+              outfit: toOptionalBoolean(outfit),
+            })) || 'Wardrobe search updated.'
           )
         } catch (error) {
           console.error('Failed to run wardrobe search tool:', error)
@@ -127,6 +237,85 @@ export function AppDock({
           return 'Unable to equip that item right now.'
         }
       },
+      undoLastAction: () => {
+        try {
+          return onUndoLastAction()
+        } catch (error) {
+          console.error('Failed to undo the last wardrobe action:', error)
+          return 'Unable to undo right now.'
+        }
+      },
+      autoCompleteOutfit: () => {
+        try {
+          return onAutoCompleteOutfit()
+        } catch (error) {
+          console.error('Failed to auto-complete the outfit:', error)
+          return 'Unable to auto-complete the outfit right now.'
+        }
+      },
+      reviewOutfitSuggestion: ({
+        slotId,
+        accept,
+      }: {
+        slotId?: string
+        accept?: boolean | string
+      }) => {
+        try {
+          return onReviewOutfitSuggestion({
+            slotId,
+            accept: toOptionalBoolean(accept) ?? true,
+          })
+        } catch (error) {
+          console.error('Failed to review the outfit suggestion:', error)
+          return 'Unable to update that suggestion right now.'
+        }
+      },
+      setBudget: ({
+        amount,
+        currency,
+      }: {
+        amount?: number | string
+        currency?: string
+      }) => {
+        try {
+          return onSetBudget({ amount, currency })
+        } catch (error) {
+          console.error('Failed to set the budget:', error)
+          return 'Unable to set the budget right now.'
+        }
+      },
+      getBudgetStatus: () => {
+        try {
+          return onGetBudgetStatus()
+        } catch (error) {
+          console.error('Failed to read the budget:', error)
+          return 'Unable to check the budget right now.'
+        }
+      },
+      generateTryOn: () => {
+        try {
+          return onStartTryOn()
+        } catch (error) {
+          console.error('Failed to start the try-on:', error)
+          return 'Unable to start the try-on right now.'
+        }
+      },
+      getTryOnProgress: () => {
+        try {
+          return onGetTryOnProgress()
+        } catch (error) {
+          console.error('Failed to read try-on progress:', error)
+          return 'Unable to check the try-on right now.'
+        }
+      },
+      cancelTryOn: async () => {
+        try {
+          return await onCancelTryOn()
+        } catch (error) {
+          console.error('Failed to cancel the try-on:', error)
+          return 'Unable to cancel the try-on right now.'
+        }
+      },
     },
     onConnect: () => {
       setAgentState('listening')
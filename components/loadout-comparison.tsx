@@ -0,0 +1,203 @@
+'use client'
+
+import { X } from 'lucide-react'
+import Image from 'next/image'
+import { useEffect, useMemo, useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { getEquippedItems } from '@/lib/equipment'
+import { compareLoadouts, getLoadoutTotal } from '@/lib/loadouts'
+import { getSlotLabel } from '@/lib/slots'
+import type { Loadout } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface LoadoutComparisonProps {
+  loadouts: Loadout[]
+  activeLoadoutId: string
+  formatCurrency: (price: number, currency: string) => string
+  onSelect: (loadoutId: string) => void
+  onClose: () => void
+}
+
+export function LoadoutComparison({
+  loadouts,
+  activeLoadoutId,
+  formatCurrency,
+  onSelect,
+  onClose,
+}: LoadoutComparisonProps) {
+  const [leftId, setLeftId] = useState(activeLoadoutId)
+  const [rightId, setRightId] = useState(
+    () =>
+      loadouts.find((loadout) => loadout.id !== activeLoadoutId)?.id ??
+      activeLoadoutId,
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const left = loadouts.find((loadout) => loadout.id === leftId) ?? loadouts[0]
+  const right =
+    loadouts.find((loadout) => loadout.id === rightId) ?? loadouts[0]
+
+  const comparison = useMemo(() => compareLoadouts(left, right), [left, right])
+  const sharedIds = new Set(comparison.shared.map((product) => product.id))
+
+  const columns = [
+    { loadout: left, setId: setLeftId, only: comparison.onlyLeft },
+    { loadout: right, setId: setRightId, only: comparison.onlyRight },
+  ]
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4 backdrop-blur-sm"
+      onClick={onClose}>
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="Compare outfits"
+        onClick={(event) => event.stopPropagation()}
+        className="flex max-h-full w-full max-w-4xl flex-col overflow-hidden rounded-3xl bg-white text-gray-900 shadow-2xl dark:bg-slate-900 dark:text-gray-100">
+        <header className="flex items-center justify-between gap-4 border-b border-black/5 px-6 py-4 dark:border-white/10">
+          <div className="space-y-1">
+            <h2 className="text-lg font-semibold leading-tight">
+              Compare outfits
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              {comparison.shared.length
+                ? `${comparison.shared.length} item${
+                    comparison.shared.length === 1 ? '' : 's'
+                  } in both: ${comparison.shared
+                    .map((product) => product.name)
+                    .join(', ')}`
+                : 'No items in common.'}
+            </p>
+          </div>
+          <Button
+            type="button"
+            size="icon-sm"
+            variant="ghost"
+            onClick={onClose}
+            aria-label="Close comparison"
+            className="cursor-pointer">
+            <X />
+          </Button>
+        </header>
+
+        <div className="grid flex-1 grid-cols-1 gap-6 overflow-y-auto px-6 py-5 md:grid-cols-2">
+          {columns.map(({ loadout, setId, only }, index) => {
+            const { total, currency, count, uncounted } =
+              getLoadoutTotal(loadout)
+            const otherTotal = getLoadoutTotal(
+              columns[1 - index].loadout,
+              currency,
+            ).total
+            const difference = total - otherTotal
+
+            return (
+              <div key={index} className="flex flex-col gap-4">
+                <select
+                  value={loadout.id}
+                  onChange={(event) => setId(event.target.value)}
+                  aria-label={`Outfit ${index + 1}`}
+                  className="rounded-full border border-black/10 bg-transparent px-3 py-1.5 text-sm font-semibold dark:border-white/20">
+                  {loadouts.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+
+                <div className="relative aspect-[2/3] w-full overflow-hidden rounded-2xl bg-gradient-to-br from-sky-100/80 to-blue-200/50">
+                  {loadout.renderUrl ? (
+                    <Image
+                      src={loadout.renderUrl}
+                      alt={`${loadout.name} try-on`}
+                      fill
+                      unoptimized
+                      className="object-cover"
+                      sizes="420px"
+                    />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center px-6 text-center text-sm text-muted-foreground">
+                      No try-on yet. Generate one from the wardrobe.
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-baseline justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {count} item{count === 1 ? '' : 's'}
+                    {uncounted ? `, ${uncounted} in another currency` : null}
+                  </span>
+                  <span className="font-semibold">
+                    {formatCurrency(total, currency)}
+                    {difference !== 0 &&
+                    loadout.id !== columns[1 - index].loadout.id ? (
+                      <span
+                        className={cn(
+                          'ml-2 text-xs font-medium',
+                          difference > 0 ? 'text-red-500' : 'text-emerald-600',
+                        )}>
+                        {difference > 0 ? '+' : '−'}
+                        {formatCurrency(Math.abs(difference), currency)}
+                      </span>
+                    ) : null}
+                  </span>
+                </div>
+
+                <ul className="divide-y divide-black/5 rounded-2xl border border-black/5 text-sm dark:divide-white/10 dark:border-white/10">
+                  {/* Items unique to this outfit first, then shared ones. */}
+                  {[
+                    ...only,
+                    ...getEquippedItems(loadout.equipped).filter(
+                      ({ product }) => sharedIds.has(product.id),
+                    ),
+                  ].map(({ slotId, product }) => (
+                    <li
+                      key={product.id}
+                      className="flex items-center justify-between gap-3 px-4 py-2">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{product.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {getSlotLabel(slotId)}
+                          {sharedIds.has(product.id) ? ' · in both' : null}
+                        </p>
+                      </div>
+                      <span className="whitespace-nowrap">
+                        {formatCurrency(product.price, product.currency)}
+                      </span>
+                    </li>
+                  ))}
+                  {count === 0 ? (
+                    <li className="px-4 py-3 text-muted-foreground">
+                      Nothing equipped yet.
+                    </li>
+                  ) : null}
+                </ul>
+
+                <Button
+                  type="button"
+                  variant={
+                    loadout.id === activeLoadoutId ? 'secondary' : 'default'
+                  }
+                  disabled={loadout.id === activeLoadoutId}
+                  onClick={() => onSelect(loadout.id)}
+                  className="cursor-pointer">
+                  {loadout.id === activeLoadoutId
+                    ? 'Current outfit'
+                    : `Switch to ${loadout.name}`}
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { Check, Copy, Share2 } from 'lucide-react'
+import { useCallback, useState } from 'react'
+
+import { shareOutfit } from '@/actions'
+import { Button } from '@/components/ui/button'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { buildOutfitSnapshot } from '@/lib/outfit-share'
+import type { Loadout } from '@/lib/types'
+
+interface OutfitShareButtonProps {
+  loadout: Loadout
+  disabled?: boolean
+}
+
+type ShareState =
+  | { status: 'idle' }
+  | { status: 'creating' }
+  | {
+      status: 'ready'
+      url: string
+      copied: boolean
+      loadout: Loadout
+      includeRender: boolean
+    }
+  | { status: 'error'; message: string }
+
+export function OutfitShareButton({
+  loadout,
+  disabled,
+}: OutfitShareButtonProps) {
+  const [includeRender, setIncludeRender] = useState(true)
+  const [shareState, setShareState] = useState<ShareState>({ status: 'idle' })
+
+  // A link is a snapshot, so any change to the outfit calls for a new one.
+  const shareLink =
+    shareState.status === 'ready' &&
+    shareState.loadout === loadout &&
+    shareState.includeRender === includeRender
+      ? shareState
+      : null
+
+  const handleCreateLink = useCallback(async () => {
+    setShareState({ status: 'creating' })
+    try {
+      const { id } = await shareOutfit(
+        buildOutfitSnapshot(loadout, { includeRender }),
+      )
+      setShareState({
+        status: 'ready',
+        url: `${window.location.origin}/outfit/${id}`,
+        copied: false,
+        loadout,
+        includeRender,
+      })
+    } catch (error) {
+      console.error('Failed to share outfit:', error)
+      setShareState({
+        status: 'error',
+        message:
+          error instanceof Error ? error.message : 'Could not create a link.',
+      })
+    }
+  }, [includeRender, loadout])
+
+  const handleCopy = useCallback(async () => {
+    if (!shareLink) return
+    try {
+      await navigator.clipboard.writeText(shareLink.url)
+      setShareState({ ...shareLink, copied: true })
+    } catch {
+      // Clipboard access can be denied; the link stays selectable.
+    }
+  }, [shareLink])
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          disabled={disabled}
+          className="cursor-pointer">
+          <Share2 /> Share
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="space-y-3 text-sm">
+        <p className="font-semibold">Share {loadout.name}</p>
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={includeRender && Boolean(loadout.renderUrl)}
+            disabled={!loadout.renderUrl}
+            onChange={(event) => setIncludeRender(event.target.checked)}
+          />
+          {loadout.renderUrl
+            ? 'Include my try-on image'
+            : 'No try-on image to include yet'}
+        </label>
+        {shareLink ? (
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={shareLink.url}
+              onFocus={(event) => event.target.select()}
+              aria-label="Share link"
+              className="min-w-0 flex-1 rounded-full border border-black/10 bg-transparent px-3 py-1 text-xs dark:border-white/20"
+            />
+            <Button
+              type="button"
+              size="icon-sm"
+              variant="outline"
+              onClick={() => {
+                void handleCopy()
+              }}
+              aria-label="Copy link"
+              className="cursor-pointer">
+              {shareLink.copied ? <Check /> : <Copy />}
+            </Button>
+          </div>
+        ) : (
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => {
+              void handleCreateLink()
+            }}
+            disabled={shareState.status === 'creating'}
+            className="w-full cursor-pointer">
+            {shareState.status === 'creating'
+              ? 'Creating link...'
+              : 'Create link'}
+          </Button>
+        )}
+        {shareState.status === 'error' ? (
+          <p className="text-xs font-medium text-red-500 dark:text-red-300">
+            {shareState.message}
+          </p>
+        ) : null}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { Check, Sparkles, X } from 'lucide-react'
+import Image from 'next/image'
+
+import { Button } from '@/components/ui/button'
+import type { OutfitSuggestion } from '@/lib/outfit-autocomplete'
+import { getSlotDisplayLabel } from '@/lib/slots'
+import type { SlotId } from '@/lib/types'
+
+interface OutfitSuggestionsProps {
+  suggestions: OutfitSuggestion[]
+  formatCurrency: (price: number, currency: string) => string
+  onAccept: (slotId: SlotId) => void
+  onReject: (slotId: SlotId) => void
+  onAcceptAll: () => void
+  onDismiss: () => void
+}
+
+export function OutfitSuggestions({
+  suggestions,
+  formatCurrency,
+  onAccept,
+  onReject,
+  onAcceptAll,
+  onDismiss,
+}: OutfitSuggestionsProps) {
+  return (
+    <section
+      aria-label="Auto-complete suggestions"
+      className="mx-6 mt-4 space-y-3 rounded-2xl border border-sky-200/70 bg-white/80 p-4 text-gray-900 shadow-sm dark:border-sky-400/30 dark:bg-slate-900/80 dark:text-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 text-sm font-semibold">
+          <Sparkles className="h-4 w-4 text-sky-600 dark:text-sky-300" />
+          {suggestions.length} suggestion{suggestions.length === 1 ? '' : 's'}{' '}
+          for empty slots
+        </p>
+        <div className="flex gap-1.5">
+          <Button
+            type="button"
+            size="sm"
+            onClick={onAcceptAll}
+            className="cursor-pointer">
+            Accept all
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={onDismiss}
+            className="cursor-pointer">
+            Dismiss
+          </Button>
+        </div>
+      </div>
+      <ul className="divide-y divide-black/5 dark:divide-white/10">
+        {suggestions.map(({ slotId, product, reason }) => (
+          <li key={slotId} className="flex items-center gap-3 py-2">
+            <div className="relative h-12 w-12 flex-shrink-0 overflow-hidden rounded-xl bg-gradient-to-br from-sky-100/80 to-blue-200/50">
+              {product.imageUrl ? (
+                <Image
+                  src={product.imageUrl}
+                  alt={product.name}
+                  fill
+                  className="object-cover"
+                  sizes="48px"
+                />
+              ) : null}
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">
+                <span className="text-muted-foreground">
+                  {getSlotDisplayLabel(slotId)}:
+                </span>{' '}
+                {product.name}{' '}
+                <span className="font-semibold">
+                  {formatCurrency(product.price, product.currency)}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">{reason}</p>
+            </div>
+            <Button
+              type="button"
+              size="icon-sm"
+              variant="outline"
+              onClick={() => onAccept(slotId)}
+              aria-label={`Equip ${product.name}`}
+              className="cursor-pointer">
+              <Check />
+            </Button>
+            <Button
+              type="button"
+              size="icon-sm"
+              variant="ghost"
+              onClick={() => onReject(slotId)}
+              aria-label={`Skip ${product.name}`}
+              className="cursor-pointer">
+              <X />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,311 @@
+'use client'
+
+import { ExternalLink, X } from 'lucide-react'
+import Image from 'next/image'
+import { useEffect, useMemo, useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+import type {
+  ProductAvailability,
+  ProductDetails,
+  ProductSummary,
+} from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface ProductDetailDrawerProps {
+  product: ProductSummary
+  formatCurrency: (price: number, currency: string) => string
+  onClose: () => void
+  onSave?: () => void
+  onPass?: () => void
+}
+
+type DetailState =
+  | { status: 'loading' }
+  | {
+      status: 'ready'
+      details: ProductDetails
+      availability: ProductAvailability | null
+    }
+  | { status: 'error'; message: string }
+
+export function ProductDetailDrawer({
+  product,
+  formatCurrency,
+  onClose,
+  onSave,
+  onPass,
+}: ProductDetailDrawerProps) {
+  const [detailState, setDetailState] = useState<DetailState>({
+    status: 'loading',
+  })
+  const [activeImage, setActiveImage] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    fetch(`/api/products/${encodeURIComponent(product.id)}`, {
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const data = (await response.json().catch(() => null)) as {
+          product?: ProductDetails
+          availability?: ProductAvailability | null
+          error?: string
+        } | null
+        if (!response.ok || !data?.product) {
+          throw new Error(data?.error || 'Could not load product details.')
+        }
+        setDetailState({
+          status: 'ready',
+          details: data.product,
+          availability: data.availability ?? null,
+        })
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        setDetailState({
+          status: 'error',
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Could not load product details.',
+        })
+      })
+
+    return () => controller.abort()
+  }, [product.id])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const details = detailState.status === 'ready' ? detailState.details : null
+  const availability =
+    detailState.status === 'ready' ? detailState.availability : null
+
+  const images = useMemo(() => {
+    const list = details?.images.length
+      ? details.images
+      : [details?.imageUrl ?? product.imageUrl].filter((url): url is string =>
+          Boolean(url),
+        )
+    return Array.from(new Set(list))
+  }, [details, product.imageUrl])
+
+  // Group variant options (size, color, …) so each renders as one row.
+  const variantOptions = useMemo(() => {
+    const groups = new Map<string, Map<string, boolean>>()
+    details?.variants.forEach((variant) => {
+      Object.entries(variant.options).forEach(([option, value]) => {
+        const values = groups.get(option) ?? new Map<string, boolean>()
+        values.set(value, values.get(value) || variant.inStock !== false)
+        groups.set(option, values)
+      })
+    })
+    return Array.from(groups.entries())
+  }, [details])
+
+  const displayedImage = activeImage ?? images[0] ?? null
+  const name = details?.name ?? product.name
+  const description = details?.description ?? product.description
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-slate-900/40 backdrop-blur-sm"
+      onClick={onClose}>
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={`${name} details`}
+        onClick={(event) => event.stopPropagation()}
+        className="flex h-full w-full max-w-md flex-col overflow-hidden bg-white text-gray-900 shadow-2xl dark:bg-slate-900 dark:text-gray-100">
+        <header className="flex items-start justify-between gap-4 border-b border-black/5 px-6 py-4 dark:border-white/10">
+          <div className="min-w-0 space-y-1">
+            <p className="text-[11px] uppercase tracking-wide text-muted-foreground">
+              {details?.source ?? product.source}
+            </p>
+            <h2 className="text-lg font-semibold leading-tight">{name}</h2>
+            <p className="text-sm font-semibold">
+              {formatCurrency(
+                details?.price ?? product.price,
+                details?.currency ?? product.currency,
+              )}
+              {availability ? (
+                <span
+                  className={cn(
+                    'ml-2 text-xs font-medium',
+                    availability.inStock ? 'text-emerald-600' : 'text-red-500',
+                  )}>
+                  {availability.inStock ? 'In stock' : 'Out of stock'}
+                </span>
+              ) : null}
+            </p>
+          </div>
+          <Button
+            type="button"
+            size="icon-sm"
+            variant="ghost"
+            onClick={onClose}
+            aria-label="Close details"
+            className="cursor-pointer">
+            <X />
+          </Button>
+        </header>
+
+        <div className="flex-1 space-y-6 overflow-y-auto px-6 py-5">
+          <div className="space-y-3">
+            <div className="relative aspect-square w-full overflow-hidden rounded-2xl bg-gradient-to-br from-sky-100/80 to-blue-200/50">
+              {displayedImage ? (
+                <Image
+                  src={displayedImage}
+                  alt={name}
+                  fill
+                  className="object-cover"
+                  sizes="448px"
+                />
+              ) : (
+                <div className="flex h-full w-full items-center justify-center text-sm text-muted-foreground">
+                  No preview
+                </div>
+              )}
+            </div>
+            {images.length > 1 ? (
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {images.map((image) => (
+                  <button
+                    key={image}
+                    type="button"
+                    onClick={() => setActiveImage(image)}
+                    aria-label="Show image"
+                    className={cn(
+                      'relative h-16 w-16 flex-shrink-0 cursor-pointer overflow-hidden rounded-xl border-2 transition',
+                      image === displayedImage
+                        ? 'border-sky-500'
+                        : 'border-transparent hover:border-sky-200',
+                    )}>
+                    <Image
+                      src={image}
+                      alt=""
+                      fill
+                      className="object-cover"
+                      sizes="64px"
+                    />
+                  </button>
+                ))}
+              </div>
+            ) : null}
+          </div>
+
+          {description ? (
+            <p className="whitespace-pre-line text-sm leading-relaxed text-muted-foreground">
+              {description}
+            </p>
+          ) : null}
+
+          {detailState.status === 'loading' ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Spinner className="h-4 w-4 text-sky-600 dark:text-sky-300" />
+              <span>Loading variants and offers…</span>
+            </div>
+          ) : null}
+
+          {detailState.status === 'error' ? (
+            <p className="text-xs font-medium text-red-500 dark:text-red-300">
+              {detailState.message}
+            </p>
+          ) : null}
+
+          {variantOptions.length > 0 ? (
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold">Variants</h3>
+              {variantOptions.map(([option, values]) => (
+                <div key={option} className="space-y-1.5">
+                  <p className="text-[11px] uppercase tracking-wide text-muted-foreground">
+                    {option}
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {Array.from(values.entries()).map(([value, inStock]) => (
+                      <span
+                        key={value}
+                        className={cn(
+                          'rounded-full border px-2.5 py-1 text-xs',
+                          inStock
+                            ? 'border-black/10 dark:border-white/20'
+                            : 'border-dashed border-black/10 text-muted-foreground line-through dark:border-white/10',
+                        )}>
+                        {value}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </section>
+          ) : null}
+
+          {details?.offers.length ? (
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Merchant offers</h3>
+              <ul className="divide-y divide-black/5 rounded-2xl border border-black/5 dark:divide-white/10 dark:border-white/10">
+                {details.offers.map((offer, index) => (
+                  <li
+                    key={`${offer.merchant}-${index}`}
+                    className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{offer.merchant}</p>
+                      {offer.inStock === false ? (
+                        <p className="text-xs text-red-500">Out of stock</p>
+                      ) : null}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">
+                        {formatCurrency(offer.price, offer.currency)}
+                      </span>
+                      {offer.url ? (
+                        <a
+                          href={offer.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          aria-label={`Open ${offer.merchant} listing`}
+                          className="text-muted-foreground hover:text-sky-600">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      ) : null}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ) : null}
+        </div>
+
+        {onSave || onPass ? (
+          <footer className="flex gap-2 border-t border-black/5 px-6 py-4 dark:border-white/10">
+            {onPass ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onPass}
+                className="flex-1 cursor-pointer">
+                Pass
+              </Button>
+            ) : null}
+            {onSave ? (
+              <Button
+                type="button"
+                onClick={onSave}
+                className="flex-1 cursor-pointer">
+                Save
+              </Button>
+            ) : null}
+          </footer>
+        ) : null}
+      </aside>
+    </div>
+  )
+}
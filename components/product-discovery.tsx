@@ -1,31 +1,167 @@
 'use client'
 
 import Image from 'next/image'
+import { useEffect, useState, type KeyboardEvent, type ReactNode } from 'react'
 
+import { ProductDetailDrawer } from '@/components/product-detail'
+import { Button } from '@/components/ui/button'
 import {
   DraggableCardBody,
   DraggableCardContainer,
   type SwipeDirection,
 } from '@/components/ui/draggable-card'
-import type { ProductSummary } from '@/lib/types'
+import { Spinner } from '@/components/ui/spinner'
+import { getSlotCandidates } from '@/lib/slot-classifier'
+import { getSlotDisplayLabel, SLOT_IDS } from '@/lib/slots'
+import type { ProductSummary, SlotId } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+// Start fetching the next page while a couple of cards are still showing.
+const LOW_DECK_THRESHOLD = 2
+
+const SWIPE_ACTIONS: Record<
+  SwipeDirection,
+  { label: string; hint: string; className: string }
+> = {
+  right: {
+    label: 'Save',
+    hint: '→ save',
+    className: 'border-emerald-500 text-emerald-600',
+  },
+  left: {
+    label: 'Pass',
+    hint: '← pass',
+    className: 'border-red-500 text-red-500',
+  },
+  up: {
+    label: 'Save + equip',
+    hint: '↑ save & equip',
+    className: 'border-sky-500 text-sky-600',
+  },
+  down: {
+    label: 'Maybe later',
+    hint: '↓ maybe later',
+    className: 'border-amber-500 text-amber-600',
+  },
+}
+
+const SWIPE_KEYS: Record<string, SwipeDirection> = {
+  ArrowRight: 'right',
+  ArrowLeft: 'left',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+}
+
+// Number keys pick from the card's scored slots, or from every slot when the
+// classifier had nothing to go on.
+const getKeyboardSlots = (product: ProductSummary): SlotId[] => {
+  const candidates = getSlotCandidates(product).map(({ slotId }) => slotId)
+  return (candidates.length ? candidates : SLOT_IDS).slice(0, 9)
+}
+
+const swipeIndicators = Object.fromEntries(
+  (Object.keys(SWIPE_ACTIONS) as SwipeDirection[]).map((direction) => [
+    direction,
+    <span
+      key={direction}
+      className={cn(
+        'block rounded-md border-4 bg-white/90 px-3 py-1 text-lg font-black uppercase tracking-wider shadow',
+        SWIPE_ACTIONS[direction].className,
+      )}>
+      {SWIPE_ACTIONS[direction].label}
+    </span>,
+  ]),
+) as Record<SwipeDirection, ReactNode>
 
 interface ProductDiscoveryStepProps {
   products: ProductSummary[]
   savedCount: number
   onProductSwipe: (product: ProductSummary, direction: SwipeDirection) => void
+  // Saves the product and equips it to a slot chosen with the number keys.
+  onEquipToSlot?: (product: ProductSummary, slotId: SlotId) => void
   formatCurrency: (price: number, currency: string) => string
   onContinue?: () => void
   canContinue?: boolean
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  // Set after a failed page fetch; auto-loading pauses until a manual retry.
+  loadMoreError?: string | null
+  onLoadMore?: () => void
+  maybeLaterCount?: number
+  onRequeueMaybeLater?: () => void
+  notice?: string | null
 }
 
 export function ProductDiscoveryStep({
   products,
   savedCount,
   onProductSwipe,
+  onEquipToSlot,
   formatCurrency,
   onContinue,
   canContinue,
+  hasMore = false,
+  isLoadingMore = false,
+  loadMoreError = null,
+  onLoadMore,
+  maybeLaterCount = 0,
+  onRequeueMaybeLater,
+  notice,
 }: ProductDiscoveryStepProps) {
+  const [detailProduct, setDetailProduct] = useState<ProductSummary | null>(
+    null,
+  )
+  const [pickedSlot, setPickedSlot] = useState<{
+    productId: string
+    slotId: SlotId
+  } | null>(null)
+
+  useEffect(() => {
+    if (!hasMore || isLoadingMore || loadMoreError || !onLoadMore) return
+    if (products.length <= LOW_DECK_THRESHOLD) {
+      onLoadMore()
+    }
+  }, [hasMore, isLoadingMore, loadMoreError, onLoadMore, products.length])
+
+  // Later cards render on top, so the last product is the one being shown.
+  const topProduct = products[products.length - 1] ?? null
+  const keyboardSlots = topProduct ? getKeyboardSlots(topProduct) : []
+  // A pick only applies to the card it was made on.
+  const selectedSlot =
+    pickedSlot && pickedSlot.productId === topProduct?.id
+      ? pickedSlot.slotId
+      : null
+
+  // Keys are only handled while the deck itself has focus, so they never
+  // steal arrows from the page or from focused buttons.
+  const handleDeckKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget || !topProduct) return
+    if (event.metaKey || event.ctrlKey || event.altKey) return
+
+    const direction = SWIPE_KEYS[event.key]
+    if (direction) {
+      event.preventDefault()
+      setPickedSlot(null)
+      onProductSwipe(topProduct, direction)
+    } else if (/^[1-9]$/.test(event.key) && onEquipToSlot) {
+      const slotId = keyboardSlots[Number(event.key) - 1]
+      if (!slotId) return
+      event.preventDefault()
+      setPickedSlot({ productId: topProduct.id, slotId })
+    } else if (event.key === 'Escape' && selectedSlot) {
+      event.preventDefault()
+      setPickedSlot(null)
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      if (selectedSlot && onEquipToSlot) {
+        setPickedSlot(null)
+        onEquipToSlot(topProduct, selectedSlot)
+      } else {
+        setDetailProduct(topProduct)
+      }
+    }
+  }
+
   const renderProductCard = (product: ProductSummary, index: number) => {
     const fallbackDescription =
       product.description || 'Tap through to learn more about this item.'
@@ -48,7 +184,9 @@ export function ProductDiscoveryStep({
         <DraggableCardContainer className="flex-shrink-0">
           <DraggableCardBody
             onSwipe={(direction) => onProductSwipe(product, direction)}
+            onTap={() => setDetailProduct(product)}
             swipeThreshold={100}
+            swipeIndicators={swipeIndicators}
             className="relative min-h-[400px] w-72 rounded-[2px] border-0 bg-white p-2.5 text-gray-900 shadow-[0_8px_24px_rgba(0,0,0,0.15)] dark:bg-white dark:text-gray-900">
             <div className="flex h-full flex-col">
               {/* Polaroid image area with white border */}
@@ -78,8 +216,11 @@ export function ProductDiscoveryStep({
                     {product.name}
                   </h3>
                 </div>
-                <div className="text-xs font-semibold">
+                <div className="flex items-center justify-between text-xs font-semibold">
                   <span>{formatCurrency(product.price, product.currency)}</span>
+                  <span className="text-[10px] font-normal text-muted-foreground">
+                    Tap for details
+                  </span>
                 </div>
               </div>
             </div>
@@ -91,17 +232,120 @@ export function ProductDiscoveryStep({
 
   return (
     <section className="overflow-hidden rounded-3xl border border-white/30 bg-white/10 p-6 backdrop-blur-2xl transition duration-300 dark:bg-slate-900/60">
-      <div className="relative min-h-[500px] w-full">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <p id="discovery-deck-hint">
+          {(Object.keys(SWIPE_ACTIONS) as SwipeDirection[])
+            .map((direction) => SWIPE_ACTIONS[direction].hint)
+            .join(' · ')}
+          <span className="sr-only">
+            . With the deck focused, use the arrow keys to swipe the top card, a
+            number key to pick a slot and Enter to equip it, or Enter alone to
+            open its details.
+          </span>
+        </p>
+        {maybeLaterCount > 0 && onRequeueMaybeLater ? (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={onRequeueMaybeLater}
+            className="cursor-pointer text-xs">
+            Bring back {maybeLaterCount} maybe-later
+          </Button>
+        ) : null}
+      </div>
+      {notice ? (
+        <p
+          role="status"
+          className="mt-2 text-xs font-medium text-sky-700 dark:text-sky-300">
+          {notice}
+        </p>
+      ) : null}
+      {topProduct && onEquipToSlot ? (
+        <p
+          id="discovery-deck-slots"
+          className="mt-2 text-xs text-muted-foreground">
+          {keyboardSlots
+            .map(
+              (slotId, index) =>
+                `${index + 1}${selectedSlot === slotId ? ' ✓' : ''} ${getSlotDisplayLabel(slotId)}`,
+            )
+            .join(' · ')}
+        </p>
+      ) : null}
+      <p aria-live="polite" className="sr-only">
+        {selectedSlot && topProduct
+          ? `${getSlotDisplayLabel(selectedSlot)} selected. Press Enter to equip ${topProduct.name}, or Escape to cancel.`
+          : ''}
+      </p>
+      <div
+        role="region"
+        aria-roledescription="card deck"
+        aria-label={
+          topProduct
+            ? `Top card: ${topProduct.name}, ${formatCurrency(
+                topProduct.price,
+                topProduct.currency,
+              )}`
+            : 'Product deck'
+        }
+        aria-describedby="discovery-deck-hint discovery-deck-slots"
+        tabIndex={0}
+        onKeyDown={handleDeckKeyDown}
+        className="relative min-h-[500px] w-full rounded-2xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500">
         {products.length > 0 ? (
           products.map((product, index) => renderProductCard(product, index))
         ) : (
-          <div className="flex h-[500px] items-center justify-center">
-            <p className="text-sm text-muted-foreground">
-              You&apos;re all caught up! Refresh to fetch more surf-ready gear.
-            </p>
+          <div className="flex h-[500px] flex-col items-center justify-center gap-3">
+            {isLoadingMore ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Spinner className="h-4 w-4 text-sky-600 dark:text-sky-300" />
+                <span>Fetching more surf-ready gear…</span>
+              </div>
+            ) : hasMore ? (
+              <>
+                {loadMoreError ? (
+                  <p className="max-w-xs text-center text-sm font-medium text-red-500 dark:text-red-400">
+                    {loadMoreError}
+                  </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    That&apos;s the end of this page.
+                  </p>
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={onLoadMore}
+                  className="cursor-pointer">
+                  {loadMoreError ? 'Try again' : 'Load more'}
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                You&apos;re all caught up! Ask your stylist for something new.
+              </p>
+            )}
           </div>
         )}
       </div>
+      {detailProduct ? (
+        <ProductDetailDrawer
+          key={detailProduct.id}
+          product={detailProduct}
+          formatCurrency={formatCurrency}
+          onClose={() => setDetailProduct(null)}
+          onSave={() => {
+            onProductSwipe(detailProduct, 'right')
+            setDetailProduct(null)
+          }}
+          onPass={() => {
+            onProductSwipe(detailProduct, 'left')
+            setDetailProduct(null)
+          }}
+        />
+      ) : null}
     </section>
   )
 }
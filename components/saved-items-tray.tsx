@@ -0,0 +1,163 @@
+'use client'
+
+import { ArrowDown, ArrowUp, Trash2, Undo2 } from 'lucide-react'
+import Image from 'next/image'
+
+import { Button } from '@/components/ui/button'
+import {
+  getSavedProductSlots,
+  type SavedSlotSource,
+} from '@/lib/slot-classifier'
+import {
+  getSlotDisplayLabel,
+  getSlotLabel,
+  SLOT_DEFINITIONS,
+} from '@/lib/slots'
+import type { ProductSummary, SlotId } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface SavedItemsTrayProps {
+  products: ProductSummary[]
+  equippedIds: Set<string>
+  formatCurrency: (price: number, currency: string) => string
+  onOverrideSlot: (productId: string, slotId: SlotId | null) => void
+  onMove: (productId: string, offset: -1 | 1) => void
+  onReturnToDeck: (productId: string) => void
+  onRemove: (productId: string) => void
+}
+
+const SOURCE_LABELS: Record<SavedSlotSource, string> = {
+  override: 'set by you',
+  planned: 'from outfit plan',
+  detected: 'detected',
+  fallback: 'no match, using fallback',
+}
+
+export function SavedItemsTray({
+  products,
+  equippedIds,
+  formatCurrency,
+  onOverrideSlot,
+  onMove,
+  onReturnToDeck,
+  onRemove,
+}: SavedItemsTrayProps) {
+  return (
+    <section
+      aria-label="Saved items"
+      className="mx-auto mt-6 w-full max-w-6xl space-y-3 rounded-3xl border border-white/40 bg-white/70 p-4 text-gray-900 dark:border-white/10 dark:bg-slate-900/70 dark:text-gray-100">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold">Saved items</h3>
+        <span className="text-xs text-muted-foreground">
+          {products.length} item{products.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      {products.length ? (
+        <ul className="divide-y divide-black/5 dark:divide-white/10">
+          {products.map((product, index) => {
+            const { slotIds, source } = getSavedProductSlots(product)
+            return (
+              <li key={product.id} className="flex items-center gap-3 py-2">
+                <div className="relative h-12 w-12 flex-shrink-0 overflow-hidden rounded-xl bg-gradient-to-br from-sky-100/80 to-blue-200/50">
+                  {product.imageUrl ? (
+                    <Image
+                      src={product.imageUrl}
+                      alt={product.name}
+                      fill
+                      className="object-cover"
+                      sizes="48px"
+                    />
+                  ) : null}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">
+                    {product.name}
+                    {equippedIds.has(product.id) ? (
+                      <span className="ml-2 text-xs font-normal text-sky-700 dark:text-sky-300">
+                        equipped
+                      </span>
+                    ) : null}
+                  </p>
+                  <p
+                    className={cn(
+                      'text-xs',
+                      source === 'fallback'
+                        ? 'text-amber-700 dark:text-amber-300'
+                        : 'text-muted-foreground',
+                    )}>
+                    {formatCurrency(product.price, product.currency)} ·{' '}
+                    {slotIds.map(getSlotDisplayLabel).join(', ')} (
+                    {SOURCE_LABELS[source]})
+                  </p>
+                </div>
+                <select
+                  value={product.slotOverride ?? ''}
+                  onChange={(event) =>
+                    onOverrideSlot(
+                      product.id,
+                      (event.target.value || null) as SlotId | null,
+                    )
+                  }
+                  aria-label={`Slot for ${product.name}`}
+                  className="max-w-[9rem] rounded-full border border-black/10 bg-transparent px-2 py-1 text-xs dark:border-white/20">
+                  <option value="">Auto slot</option>
+                  {SLOT_DEFINITIONS.map((slot) => (
+                    <option key={slot.id} value={slot.id}>
+                      {getSlotLabel(slot.id)}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex">
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    disabled={index === 0}
+                    onClick={() => onMove(product.id, -1)}
+                    aria-label={`Move ${product.name} up`}
+                    className="cursor-pointer">
+                    <ArrowUp />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    disabled={index === products.length - 1}
+                    onClick={() => onMove(product.id, 1)}
+                    aria-label={`Move ${product.name} down`}
+                    className="cursor-pointer">
+                    <ArrowDown />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() => onReturnToDeck(product.id)}
+                    aria-label={`Move ${product.name} back to the deck`}
+                    title="Back to deck"
+                    className="cursor-pointer">
+                    <Undo2 />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() => onRemove(product.id)}
+                    aria-label={`Remove ${product.name}`}
+                    title="Remove"
+                    className="cursor-pointer text-red-500 hover:text-red-600">
+                    <Trash2 />
+                  </Button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Nothing saved yet. Swipe right on a card to save it.
+        </p>
+      )}
+    </section>
+  )
+}
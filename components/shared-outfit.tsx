@@ -0,0 +1,151 @@
+'use client'
+
+import { ExternalLink } from 'lucide-react'
+import Image from 'next/image'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+import { describeUncounted, sumPrices } from '@/lib/budget'
+import { formatCurrency } from '@/lib/currency'
+import { importSharedOutfit } from '@/lib/outfit-share'
+import {
+  getSessionId,
+  loadWardrobeSession,
+  saveWardrobeSession,
+} from '@/lib/session'
+import { getSlotDisplayLabel } from '@/lib/slots'
+import type { SharedOutfit } from '@/lib/types'
+
+interface SharedOutfitViewProps {
+  outfit: SharedOutfit
+}
+
+export function SharedOutfitView({ outfit }: SharedOutfitViewProps) {
+  const router = useRouter()
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const currency = outfit.items[0]?.product.currency?.toUpperCase() || 'USD'
+  const { total, uncounted } = sumPrices(
+    outfit.items.map(({ product }) => product),
+    currency,
+  )
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    setImportError(null)
+    try {
+      const sessionId = getSessionId()
+      const session = await loadWardrobeSession(sessionId)
+      await saveWardrobeSession(importSharedOutfit(session, outfit, sessionId))
+      router.push('/?open=wardrobe')
+    } catch (error) {
+      console.error('Failed to import shared outfit:', error)
+      setImportError(
+        error instanceof Error
+          ? error.message
+          : 'Could not add this outfit to your wardrobe.',
+      )
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <main className="w-full max-w-4xl space-y-6 px-4 py-10 text-gray-900 dark:text-gray-100">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-[11px] uppercase tracking-wide text-muted-foreground">
+            Shared outfit
+          </p>
+          <h1 className="text-2xl font-semibold leading-tight">
+            {outfit.name}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {outfit.items.length} item{outfit.items.length === 1 ? '' : 's'} ·{' '}
+            {formatCurrency(total, currency)}
+            {uncounted ? ` · ${describeUncounted(uncounted)}` : null}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={isImporting}
+            className="cursor-pointer">
+            {isImporting ? <Spinner className="h-4 w-4" /> : null}
+            Open in my wardrobe
+          </Button>
+          {importError ? (
+            <p className="text-xs font-medium text-red-500 dark:text-red-300">
+              {importError}
+            </p>
+          ) : null}
+        </div>
+      </header>
+
+      <div className="grid gap-6 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        {outfit.renderUrl ? (
+          <div className="relative aspect-[2/3] w-full overflow-hidden rounded-3xl bg-gradient-to-br from-sky-100/80 to-blue-200/50">
+            <Image
+              src={outfit.renderUrl}
+              alt={`${outfit.name} try-on`}
+              fill
+              unoptimized
+              className="object-cover"
+              sizes="(min-width: 768px) 320px, 100vw"
+            />
+          </div>
+        ) : null}
+
+        <ul
+          className={
+            outfit.renderUrl
+              ? 'grid content-start gap-3'
+              : 'grid content-start gap-3 sm:grid-cols-2 md:col-span-2'
+          }>
+          {outfit.items.map(({ slotId, product }) => (
+            <li
+              key={product.id}
+              className="flex gap-4 rounded-2xl border border-black/5 bg-white/80 p-3 shadow-sm dark:border-white/10 dark:bg-slate-900/70">
+              <div className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-xl bg-gradient-to-br from-sky-100/80 to-blue-200/50">
+                {product.imageUrl ? (
+                  <Image
+                    src={product.imageUrl}
+                    alt={product.name}
+                    fill
+                    className="object-cover"
+                    sizes="80px"
+                  />
+                ) : null}
+              </div>
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-[11px] uppercase tracking-wide text-muted-foreground">
+                  {getSlotDisplayLabel(slotId)}
+                  {product.source ? ` · ${product.source}` : null}
+                </p>
+                <p className="line-clamp-2 text-sm font-medium leading-snug">
+                  {product.name}
+                </p>
+                <p className="text-sm font-semibold">
+                  {formatCurrency(product.price, product.currency)}
+                </p>
+              </div>
+              {product.productLink ? (
+                <a
+                  href={product.productLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  aria-label={`Open ${product.name} listing`}
+                  className="self-start text-muted-foreground hover:text-sky-600">
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,203 @@
+'use client'
+
+import { X } from 'lucide-react'
+import Image from 'next/image'
+import { useEffect, useState } from 'react'
+
+import { BeforeAfterSlider } from '@/components/ui/before-after-slider'
+import { Button } from '@/components/ui/button'
+import {
+  describeTryOnRender,
+  formatTryOnRenderTime,
+} from '@/lib/try-on-history'
+import type { TryOnRender } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface TryOnComparisonProps {
+  renders: TryOnRender[]
+  basePortraitUrl: string | null
+  initialRenderId: string
+  onReequip: (renderId: string) => void
+  onClose: () => void
+}
+
+const BASE_PORTRAIT_ID = 'base'
+
+type CompareMode = 'slider' | 'side-by-side'
+
+export function TryOnComparison({
+  renders,
+  basePortraitUrl,
+  initialRenderId,
+  onReequip,
+  onClose,
+}: TryOnComparisonProps) {
+  const [afterId, setAfterId] = useState(initialRenderId)
+  // Default to the render just before this one, or the untouched portrait.
+  const [beforeId, setBeforeId] = useState(() => {
+    const index = renders.findIndex((render) => render.id === initialRenderId)
+    return (
+      renders[index + 1]?.id ??
+      (basePortraitUrl ? BASE_PORTRAIT_ID : initialRenderId)
+    )
+  })
+  const [mode, setMode] = useState<CompareMode>('slider')
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const toSide = (id: string) => {
+    const render = renders.find((item) => item.id === id)
+    if (render) {
+      return {
+        id,
+        render,
+        imageUrl: render.imageUrl,
+        label: `${formatTryOnRenderTime(render)} try-on`,
+      }
+    }
+    return id === BASE_PORTRAIT_ID && basePortraitUrl
+      ? {
+          id: BASE_PORTRAIT_ID,
+          render: null,
+          imageUrl: basePortraitUrl,
+          label: 'Original portrait',
+        }
+      : null
+  }
+  const before = toSide(beforeId)
+  // Fall back to the newest render if the chosen one was removed.
+  const after = toSide(afterId) ?? (renders[0] && toSide(renders[0].id))
+  if (!after) return null
+
+  const sides = [
+    { side: before, setId: setBeforeId, name: 'Before' },
+    { side: after, setId: setAfterId, name: 'After' },
+  ]
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4 backdrop-blur-sm"
+      onClick={onClose}>
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="Compare try-ons"
+        onClick={(event) => event.stopPropagation()}
+        className="flex max-h-full w-full max-w-4xl flex-col overflow-hidden rounded-3xl bg-white text-gray-900 shadow-2xl dark:bg-slate-900 dark:text-gray-100">
+        <header className="flex items-center justify-between gap-4 border-b border-black/5 px-6 py-4 dark:border-white/10">
+          <h2 className="text-lg font-semibold leading-tight">
+            Compare try-ons
+          </h2>
+          <div className="flex items-center gap-2">
+            <div
+              role="group"
+              aria-label="Comparison layout"
+              className="flex rounded-full border border-black/10 p-0.5 text-xs dark:border-white/20">
+              {(['slider', 'side-by-side'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={mode === option}
+                  onClick={() => setMode(option)}
+                  className={cn(
+                    'cursor-pointer rounded-full px-3 py-1',
+                    mode === option
+                      ? 'bg-gray-900 text-white dark:bg-white dark:text-gray-900'
+                      : 'text-muted-foreground',
+                  )}>
+                  {option === 'slider' ? 'Slider' : 'Side by side'}
+                </button>
+              ))}
+            </div>
+            <Button
+              type="button"
+              size="icon-sm"
+              variant="ghost"
+              onClick={onClose}
+              aria-label="Close comparison"
+              className="cursor-pointer">
+              <X />
+            </Button>
+          </div>
+        </header>
+
+        <div className="grid flex-1 grid-cols-1 gap-6 overflow-y-auto px-6 py-5 md:grid-cols-2">
+          {sides.map(({ side, setId, name }) => (
+            <div key={name} className="flex flex-col gap-3">
+              <select
+                value={side?.id ?? ''}
+                onChange={(event) => setId(event.target.value)}
+                aria-label={`${name} image`}
+                className="rounded-full border border-black/10 bg-transparent px-3 py-1.5 text-sm font-semibold dark:border-white/20">
+                {basePortraitUrl ? (
+                  <option value={BASE_PORTRAIT_ID}>Original portrait</option>
+                ) : null}
+                {renders.map((render) => (
+                  <option key={render.id} value={render.id}>
+                    {formatTryOnRenderTime(render)} –{' '}
+                    {describeTryOnRender(render)}
+                  </option>
+                ))}
+              </select>
+
+              {mode === 'side-by-side' ? (
+                <div className="relative aspect-[2/3] w-full overflow-hidden rounded-2xl bg-white">
+                  {side ? (
+                    <Image
+                      src={side.imageUrl}
+                      alt={side.label}
+                      fill
+                      unoptimized
+                      className="object-contain"
+                      sizes="420px"
+                    />
+                  ) : null}
+                </div>
+              ) : null}
+
+              {side?.render ? (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    {describeTryOnRender(side.render)}
+                    <br />
+                    Model {side.render.modelVersion}
+                    {side.render.seed === null
+                      ? ''
+                      : ` · seed ${side.render.seed}`}
+                  </p>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => onReequip(side.id)}
+                    className="cursor-pointer">
+                    Re-equip these items
+                  </Button>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Your portrait before any garments were applied.
+                </p>
+              )}
+            </div>
+          ))}
+
+          {mode === 'slider' && before ? (
+            <BeforeAfterSlider
+              beforeUrl={before.imageUrl}
+              afterUrl={after.imageUrl}
+              beforeLabel={before.label}
+              afterLabel={after.label}
+              className="mx-auto max-w-md md:order-first md:col-span-2"
+            />
+          ) : null}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { Columns2, Shirt, Trash2 } from 'lucide-react'
+import Image from 'next/image'
+
+import { Button } from '@/components/ui/button'
+import {
+  describeTryOnRender,
+  formatTryOnRenderTime,
+} from '@/lib/try-on-history'
+import type { TryOnRender } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface TryOnGalleryProps {
+  renders: TryOnRender[]
+  currentRenderUrl: string | null
+  onCompare: (renderId: string) => void
+  onReequip: (renderId: string) => void
+  onRemove: (renderId: string) => void
+}
+
+export function TryOnGallery({
+  renders,
+  currentRenderUrl,
+  onCompare,
+  onReequip,
+  onRemove,
+}: TryOnGalleryProps) {
+  return (
+    <section
+      aria-label="Try-on history"
+      className="mx-auto mt-6 w-full max-w-6xl space-y-3 rounded-3xl border border-white/40 bg-white/70 p-4 text-gray-900 dark:border-white/10 dark:bg-slate-900/70 dark:text-gray-100">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold">Try-on history</h3>
+        <span className="text-xs text-muted-foreground">
+          {renders.length} render{renders.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      <ul className="flex gap-3 overflow-x-auto pb-1">
+        {renders.map((render) => {
+          const description = describeTryOnRender(render)
+          const isCurrent = render.imageUrl === currentRenderUrl
+          return (
+            <li
+              key={render.id}
+              className={cn(
+                'w-36 flex-shrink-0 space-y-1.5 rounded-2xl border p-2',
+                isCurrent
+                  ? 'border-sky-400 dark:border-sky-300'
+                  : 'border-black/5 dark:border-white/10',
+              )}>
+              <div className="relative aspect-[2/3] w-full overflow-hidden rounded-xl bg-white">
+                <Image
+                  src={render.imageUrl}
+                  alt={`Try-on: ${description}`}
+                  fill
+                  unoptimized
+                  className="object-contain"
+                  sizes="144px"
+                />
+              </div>
+              <p
+                className="line-clamp-2 text-xs leading-snug"
+                title={description}>
+                {description}
+              </p>
+              <p className="text-[11px] text-muted-foreground">
+                {formatTryOnRenderTime(render)}
+                {isCurrent ? ' · showing' : null}
+              </p>
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  size="icon-sm"
+                  variant="ghost"
+                  onClick={() => onCompare(render.id)}
+                  aria-label={`Compare the ${formatTryOnRenderTime(
+                    render,
+                  )} try-on`}
+                  title="Compare"
+                  className="cursor-pointer">
+                  <Columns2 />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon-sm"
+                  variant="ghost"
+                  onClick={() => onReequip(render.id)}
+                  aria-label={`Re-equip the items from the ${formatTryOnRenderTime(
+                    render,
+                  )} try-on`}
+                  title="Re-equip these items"
+                  className="cursor-pointer">
+                  <Shirt />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon-sm"
+                  variant="ghost"
+                  onClick={() => onRemove(render.id)}
+                  aria-label={`Remove the ${formatTryOnRenderTime(
+                    render,
+                  )} try-on`}
+                  title="Remove"
+                  className="cursor-pointer text-red-500 hover:text-red-600">
+                  <Trash2 />
+                </Button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
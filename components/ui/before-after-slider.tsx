@@ -0,0 +1,80 @@
+'use client'
+
+import Image from 'next/image'
+import { useState } from 'react'
+
+import { cn } from '@/lib/utils'
+
+interface BeforeAfterSliderProps {
+  beforeUrl: string
+  afterUrl: string
+  beforeLabel: string
+  afterLabel: string
+  className?: string
+}
+
+// The "before" image is clipped to the left of the handle. A transparent
+// range input covers the whole frame, so dragging, clicking and the arrow
+// keys all move the handle.
+function BeforeAfterSlider({
+  beforeUrl,
+  afterUrl,
+  beforeLabel,
+  afterLabel,
+  className,
+}: BeforeAfterSliderProps) {
+  const [position, setPosition] = useState(50)
+
+  return (
+    <div
+      data-slot="before-after-slider"
+      className={cn(
+        'relative aspect-[2/3] w-full overflow-hidden rounded-2xl bg-white',
+        className,
+      )}>
+      <Image
+        src={afterUrl}
+        alt={afterLabel}
+        fill
+        unoptimized
+        className="object-contain"
+        sizes="420px"
+      />
+      <div
+        className="absolute inset-0"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+        <Image
+          src={beforeUrl}
+          alt={beforeLabel}
+          fill
+          unoptimized
+          className="object-contain"
+          sizes="420px"
+        />
+      </div>
+      <div
+        aria-hidden="true"
+        className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-sky-500 shadow"
+        style={{ left: `${position}%` }}
+      />
+      <span className="pointer-events-none absolute left-3 top-3 rounded-full bg-black/60 px-2 py-0.5 text-[11px] font-medium text-white">
+        {beforeLabel}
+      </span>
+      <span className="pointer-events-none absolute right-3 top-3 rounded-full bg-black/60 px-2 py-0.5 text-[11px] font-medium text-white">
+        {afterLabel}
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(event) => setPosition(Number(event.target.value))}
+        aria-label={`Show more of ${beforeLabel} or ${afterLabel}`}
+        aria-valuetext={`${position}% ${beforeLabel}`}
+        className="absolute inset-0 h-full w-full cursor-ew-resize opacity-0"
+      />
+    </div>
+  )
+}
+
+export { BeforeAfterSlider }
@@ -8,6 +8,7 @@ import {
   useSpring,
   useTransform,
   useVelocity,
+  type MotionValue,
 } from 'motion/react'
 import React, { useEffect, useRef, useState } from 'react'
 
@@ -15,22 +16,84 @@ import { cn } from '@/lib/utils'
 
 export type SwipeDirection = 'left' | 'right' | 'up' | 'down'
 
+// The dominant axis decides the direction, so a diagonal drag is one swipe.
+const getSwipeDirection = (x: number, y: number): SwipeDirection =>
+  Math.abs(x) >= Math.abs(y)
+    ? x > 0
+      ? 'right'
+      : 'left'
+    : y > 0
+      ? 'down'
+      : 'up'
+
+const indicatorPositions: Record<SwipeDirection, string> = {
+  right: 'left-4 top-4 -rotate-12',
+  left: 'right-4 top-4 rotate-12',
+  up: 'bottom-6 left-1/2 -translate-x-1/2',
+  down: 'left-1/2 top-4 -translate-x-1/2',
+}
+
+const SwipeIndicator = ({
+  direction,
+  dragX,
+  dragY,
+  threshold,
+  children,
+}: {
+  direction: SwipeDirection
+  dragX: MotionValue<number>
+  dragY: MotionValue<number>
+  threshold: number
+  children: React.ReactNode
+}) => {
+  // Fades in as the drag approaches the swipe threshold in this direction.
+  const opacity = useTransform(() => {
+    const x = dragX.get()
+    const y = dragY.get()
+    if (!x && !y) return 0
+    if (getSwipeDirection(x, y) !== direction) return 0
+    return Math.min(1, Math.max(Math.abs(x), Math.abs(y)) / threshold)
+  })
+
+  return (
+    <motion.div
+      style={{ opacity }}
+      className={cn(
+        'pointer-events-none absolute z-20 select-none',
+        indicatorPositions[direction],
+      )}>
+      {children}
+    </motion.div>
+  )
+}
+
 interface DraggableCardBodyProps {
   className?: string
   children?: React.ReactNode
   onSwipe?: (direction: SwipeDirection) => void
+  onTap?: () => void
   swipeThreshold?: number
+  // Rendered over the card while it is dragged towards that direction.
+  swipeIndicators?: Partial<Record<SwipeDirection, React.ReactNode>>
 }
 
 export const DraggableCardBody = ({
   className,
   children,
   onSwipe,
+  onTap,
   swipeThreshold = 120,
+  swipeIndicators,
 }: DraggableCardBodyProps) => {
   const mouseX = useMotionValue(0)
   const mouseY = useMotionValue(0)
+  // Drag offset, separate from the pointer position that drives the tilt.
+  const dragX = useMotionValue(0)
+  const dragY = useMotionValue(0)
+  const [isDragging, setIsDragging] = useState(false)
   const cardRef = useRef<HTMLDivElement>(null)
+  // Set when a drag starts so the click that ends it isn't treated as a tap.
+  const didDragRef = useRef(false)
   const controls = useAnimationControls()
   const [constraints, setConstraints] = useState({
     top: 0,
@@ -119,11 +182,17 @@ export const DraggableCardBody = ({
       ref={cardRef}
       drag
       dragConstraints={constraints}
+      onPointerDown={() => {
+        didDragRef.current = false
+      }}
       onDragStart={() => {
+        didDragRef.current = true
+        setIsDragging(true)
         document.body.style.cursor = 'grabbing'
       }}
       onDragEnd={(event, info) => {
         document.body.style.cursor = 'default'
+        setIsDragging(false)
 
         controls.start({
           rotateX: 0,
@@ -169,17 +238,13 @@ export const DraggableCardBody = ({
           const passedThreshold = absX > swipeThreshold || absY > swipeThreshold
 
           if (passedThreshold) {
-            let direction: SwipeDirection
-            if (absX >= absY) {
-              direction = (offset.x ?? 0) > 0 ? 'right' : 'left'
-            } else {
-              direction = (offset.y ?? 0) > 0 ? 'down' : 'up'
-            }
-            onSwipe(direction)
+            onSwipe(getSwipeDirection(offset.x ?? 0, offset.y ?? 0))
           }
         }
       }}
       style={{
+        x: dragX,
+        y: dragY,
         rotateX,
         rotateY,
         opacity,
@@ -187,6 +252,9 @@ export const DraggableCardBody = ({
       }}
       animate={controls}
       whileHover={{ scale: 1.02 }}
+      onClick={() => {
+        if (!didDragRef.current) onTap?.()
+      }}
       onMouseMove={handleMouseMove}
       onMouseLeave={handleMouseLeave}
       className={cn(
@@ -194,6 +262,20 @@ export const DraggableCardBody = ({
         className,
       )}>
       {children}
+      {isDragging && swipeIndicators
+        ? (Object.keys(swipeIndicators) as SwipeDirection[]).map(
+            (direction) => (
+              <SwipeIndicator
+                key={direction}
+                direction={direction}
+                dragX={dragX}
+                dragY={dragY}
+                threshold={swipeThreshold}>
+                {swipeIndicators[direction]}
+              </SwipeIndicator>
+            ),
+          )
+        : null}
       <motion.div
         style={{
           opacity: glareOpacity,
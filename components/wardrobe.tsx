@@ -1,5 +1,6 @@
 'use client'
 
+import { AlertTriangle, Plus, Redo2, Sparkles, Undo2 } from 'lucide-react'
 import Image from 'next/image'
 import {
   forwardRef,
@@ -10,22 +11,17 @@ import {
   useRef,
   useState,
   type ChangeEvent,
+  type KeyboardEvent as ReactKeyboardEvent,
 } from 'react'
-import {
-  GiBelt,
-  GiBigDiamondRing,
-  GiChelseaBoot,
-  GiDropEarrings,
-  GiHandBag,
-  GiPearlNecklace,
-  GiTrousers,
-  GiTShirt,
-  GiWinterGloves,
-  GiWinterHat,
-} from 'react-icons/gi'
-
-import { generateOutfitImage, runAgent } from '@/actions'
+
+import { cancelOutfitImageJob, runAgent, startOutfitImageJob } from '@/actions'
+import { LoadoutComparison } from '@/components/loadout-comparison'
+import { OutfitShareButton } from '@/components/outfit-share-button'
+import { OutfitSuggestions } from '@/components/outfit-suggestions'
 import { ProductDiscoveryStep } from '@/components/product-discovery'
+import { SavedItemsTray } from '@/components/saved-items-tray'
+import { TryOnComparison } from '@/components/try-on-comparison'
+import { TryOnGallery } from '@/components/try-on-gallery'
 import { Button } from '@/components/ui/button'
 import type { SwipeDirection } from '@/components/ui/draggable-card'
 import {
@@ -34,193 +30,177 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover'
 import { Spinner } from '@/components/ui/spinner'
+import {
+  describeBudgetStatus,
+  describeUncounted,
+  getBudgetStatus,
+} from '@/lib/budget'
+import { formatCurrency } from '@/lib/currency'
+import {
+  describeDisplaced,
+  equipProduct,
+  getCoveringSlot,
+  getEquippedItems,
+} from '@/lib/equipment'
+import {
+  createHistory,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from '@/lib/history'
+import {
+  createLoadout,
+  nextLoadoutName,
+  removeProductFromLoadouts,
+} from '@/lib/loadouts'
+import {
+  describeOutfitSuggestions,
+  suggestOutfitCompletion,
+  type OutfitSuggestion,
+} from '@/lib/outfit-autocomplete'
+import { describeOutfitWarnings, evaluateOutfit } from '@/lib/outfit-rules'
+import {
+  getBestSlot,
+  getSavedProductSlots,
+  getSlotCandidates,
+} from '@/lib/slot-classifier'
+import {
+  describeSlotIds,
+  getSlotLabel,
+  getSlotsForSide,
+  isSlotId,
+  SLOT_IDS,
+} from '@/lib/slots'
+import {
+  addTryOnRender,
+  createTryOnRender,
+  formatTryOnRenderTime,
+  getNextRenderSeed,
+} from '@/lib/try-on-history'
+import {
+  applyTryOnJobEvent,
+  createTryOnProgress,
+  describeTryOnProgress,
+  describeTryOnSlots,
+  followTryOnJob,
+  type TryOnProgress,
+} from '@/lib/try-on-progress'
 import {
   EquippedState,
+  Loadout,
   ProductSummary,
   SelectedWardrobeItem,
+  ShopperBudget,
   SlotId,
+  TryOnRender,
+  WardrobeSessionState,
   WardrobeSlotImage,
 } from '@/lib/types'
-import { cn } from '@/lib/utils'
+import { cn, isTypingTarget } from '@/lib/utils'
 
 interface WardrobeProps {
   initialProducts: ProductSummary[]
   isLoading?: boolean
   lastQuery?: string | null
   errorMessage?: string | null
+  hasMoreProducts?: boolean
+  // Restored state from a persisted session; only read on mount.
+  sessionState?: WardrobeSessionState | null
+  onSessionStateChange?: (state: WardrobeSessionState) => void
+  onStartOver?: () => void
+  budget?: ShopperBudget | null
+  onLoadMoreProducts?: () => Promise<ProductSummary[]>
 }
 
 export type WardrobeHandle = {
   equipProduct: (params: {
-    slotId: string
+    slotId?: string
     productId?: string
     productName?: string
   }) => string
   generateOutfit: () => Promise<string>
-  purchaseEquipped: () => Promise<string>
+  // Kicks off a try-on without waiting for it, for voice.
+  startTryOn: () => string
+  getTryOnProgress: () => string
+  cancelTryOn: () => Promise<string>
+  purchaseEquipped: (options?: { overrideBudget?: boolean }) => Promise<string>
   goToWardrobeStep: () => void
+  undoLastAction: () => string
+  autoCompleteOutfit: () => string
+  reviewOutfitSuggestion: (params: {
+    slotId?: string
+    accept: boolean
+  }) => string
 }
 
-const equipmentSlots = {
-  left: [
-    { id: 'head' as SlotId, icon: GiWinterHat },
-    { id: 'chest' as SlotId, icon: GiTShirt },
-    { id: 'waist' as SlotId, icon: GiBelt },
-    { id: 'legs' as SlotId, icon: GiTrousers },
-    { id: 'feet' as SlotId, icon: GiChelseaBoot },
-  ],
-  right: [
-    { id: 'ears' as SlotId, icon: GiDropEarrings },
-    { id: 'neck' as SlotId, icon: GiPearlNecklace },
-    { id: 'bag' as SlotId, icon: GiHandBag },
-    { id: 'hand' as SlotId, icon: GiWinterGloves },
-    { id: 'ring' as SlotId, icon: GiBigDiamondRing },
-  ],
+type WardrobeSnapshot = {
+  deck: ProductSummary[]
+  saved: ProductSummary[]
+  dismissedIds: string[]
+  maybeLater: ProductSummary[]
+  loadoutState: { loadouts: Loadout[]; activeId: string }
 }
 
-const slotKeywordMap: Record<SlotId, string[]> = {
-  head: [
-    'hat',
-    'helmet',
-    'cap',
-    'beanie',
-    'visor',
-    'headband',
-    'bucket hat',
-    'sun hat',
-  ],
-  chest: [
-    'shirt',
-    'tee',
-    't-shirt',
-    'rash guard',
-    'rashguard',
-    'hoodie',
-    'jacket',
-    'top',
-    'vest',
-    'long sleeve',
-    'pullover',
-    'sweater',
-    'crew',
-    'tank',
-    'jersey',
-    'fleece',
-  ],
-  waist: ['belt', 'waist', 'fanny', 'hip pack', 'utility belt', 'sash', 'wrap'],
-  legs: [
-    'short',
-    'shorts',
-    'pant',
-    'pants',
-    'trouser',
-    'trousers',
-    'legging',
-    'leggings',
-    'tight',
-    'tights',
-    'boardshort',
-    'boardshorts',
-    'baggies',
-    'jean',
-    'jeans',
-    'bottom',
-    'skirt',
-  ],
-  feet: [
-    'shoe',
-    'shoes',
-    'boot',
-    'boots',
-    'sandal',
-    'sandals',
-    'flip-flop',
-    'flip flop',
-    'flop',
-    'sneaker',
-    'sneakers',
-    'sock',
-    'socks',
-    'slide',
-    'slides',
-  ],
-  ears: ['earring', 'ear ring', 'ear cuff', 'ear stud', 'ear hoop'],
-  neck: ['necklace', 'scarf', 'chain', 'neck gaiter', 'bandana', 'choker'],
-  bag: [
-    'bag',
-    'backpack',
-    'back pack',
-    'tote',
-    'duffle',
-    'duffel',
-    'dry bag',
-    'sling',
-    'satchel',
-    'pouch',
-  ],
-  hand: [
-    'glove',
-    'gloves',
-    'mitten',
-    'mittens',
-    'surfboard',
-    'longboard',
-    'shortboard',
-    'paddle',
-    'wax',
-    'leash',
-    'fin',
-  ],
-  ring: ['ring', 'band', 'signet'],
+const equipmentSlots = {
+  left: getSlotsForSide('left'),
+  right: getSlotsForSide('right'),
 }
 
-const slotFallbackPriority: SlotId[] = ['chest', 'legs', 'hand', 'bag']
-
-const allSlotIds: SlotId[] = [
-  'head',
-  'chest',
-  'waist',
-  'legs',
-  'feet',
-  'ears',
-  'neck',
-  'bag',
-  'hand',
-  'ring',
-]
+// Sides holding more slots than this shrink their buttons to fit the column.
+const COMPACT_SLOT_THRESHOLD = 5
 
-const isSlotId = (value: string): value is SlotId =>
-  allSlotIds.includes(value as SlotId)
+// How each swipe reads in the undo history.
+const SWIPE_ACTION_LABELS: Record<SwipeDirection, string> = {
+  right: 'saving',
+  left: 'passing on',
+  up: 'saving and equipping',
+  down: 'setting aside',
+}
+
+// Fresh cards slide in underneath the ones still being reviewed (the end of
+// the deck is the top card). Returns `deck` untouched when nothing is new.
+const mergeUnseenProducts = (
+  deck: ProductSummary[],
+  incoming: ProductSummary[],
+  excludedIds: string[],
+) => {
+  const knownIds = new Set([...deck.map((item) => item.id), ...excludedIds])
+  const unseen = incoming.filter((item) => !knownIds.has(item.id))
+  return unseen.length ? [...unseen, ...deck] : deck
+}
 
 const buildProductSearchText = (product: ProductSummary) =>
   `${product.name} ${product.description ?? ''}`.toLowerCase()
 
-const productMatchesSlot = (product: ProductSummary, slotId: SlotId) => {
-  const keywords = slotKeywordMap[slotId] ?? []
-  if (!keywords.length) return false
-  const haystack = buildProductSearchText(product)
-  return keywords.some((keyword) => {
-    const regex = new RegExp(
-      `\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`,
-      'i',
-    )
-    return regex.test(haystack)
-  })
-}
-
-const SLOT_LABELS: Record<SlotId, string> = {
-  head: 'Head',
-  chest: 'Chest',
-  waist: 'Waist',
-  legs: 'Legs',
-  feet: 'Feet',
-  ears: 'Ears',
-  neck: 'Neck',
-  bag: 'Bag',
-  hand: 'Hand',
-  ring: 'Ring',
+const SLOT_OPTION_SELECTOR = '[data-slot-option]'
+
+// Number keys jump to an option in a slot popover and arrows move between
+// them; Enter then equips the focused option like a click.
+const handleSlotOptionKeyDown = (event: ReactKeyboardEvent<HTMLElement>) => {
+  if (event.metaKey || event.ctrlKey || event.altKey) return
+  const options = Array.from(
+    event.currentTarget.querySelectorAll<HTMLButtonElement>(
+      SLOT_OPTION_SELECTOR,
+    ),
+  )
+  if (!options.length) return
+
+  const current = options.indexOf(document.activeElement as HTMLButtonElement)
+  let next: number | null = null
+  if (/^[1-9]$/.test(event.key)) {
+    next = Number(event.key) - 1
+  } else if (event.key === 'ArrowDown') {
+    next = current < 0 ? 0 : Math.min(current + 1, options.length - 1)
+  } else if (event.key === 'ArrowUp') {
+    next = current < 0 ? options.length - 1 : Math.max(current - 1, 0)
+  }
+  if (next === null || !options[next]) return
+  event.preventDefault()
+  options[next].focus()
 }
 
+// Above any classifier confidence, so overridden products sort first.
+const OVERRIDE_CONFIDENCE = 2
 const PORTRAIT_TARGET_WIDTH = 420
 const FLOW_STEPS = [
   {
@@ -244,47 +224,247 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
       isLoading = false,
       lastQuery,
       errorMessage: wardrobeSearchError,
+      hasMoreProducts = false,
+      onLoadMoreProducts,
+      sessionState,
+      onSessionStateChange,
+      onStartOver,
+      budget = null,
     }: WardrobeProps,
     ref,
   ) {
     const [selectedSlot, setSelectedSlot] = useState<SlotId | null>(null)
-    const [equippedSlots, setEquippedSlots] = useState<EquippedState>({})
-    const [productDeck, setProductDeck] =
-      useState<ProductSummary[]>(initialProducts)
-    const [savedProducts, setSavedProducts] = useState<ProductSummary[]>([])
-    const [activeStep, setActiveStep] = useState<FlowStep>('discover')
-    const [portraitPreviewUrl, setPortraitPreviewUrl] = useState<string | null>(
+    const [loadoutState, setLoadoutState] = useState(() => {
+      const loadouts = sessionState?.loadouts?.length
+        ? sessionState.loadouts
+        : [createLoadout('Outfit 1')]
+      const activeId = loadouts.some(
+        (loadout) => loadout.id === sessionState?.activeLoadoutId,
+      )
+        ? (sessionState?.activeLoadoutId as string)
+        : loadouts[0].id
+      return { loadouts, activeId }
+    })
+    const [isComparingLoadouts, setIsComparingLoadouts] = useState(false)
+    const [renders, setRenders] = useState<TryOnRender[]>(
+      () => sessionState?.renders ?? [],
+    )
+    const [comparingRenderId, setComparingRenderId] = useState<string | null>(
       null,
     )
+    const [history, setHistory] = useState(createHistory<WardrobeSnapshot>)
+    const [productDeck, setProductDeck] = useState<ProductSummary[]>(
+      () => sessionState?.deck ?? initialProducts,
+    )
+    const [savedProducts, setSavedProducts] = useState<ProductSummary[]>(
+      () => sessionState?.saved ?? [],
+    )
+    const [dismissedIds, setDismissedIds] = useState<string[]>(
+      () => sessionState?.dismissedIds ?? [],
+    )
+    const [maybeLaterProducts, setMaybeLaterProducts] = useState<
+      ProductSummary[]
+    >(() => sessionState?.maybeLater ?? [])
+    const [activeStep, setActiveStep] = useState<FlowStep>(
+      () => sessionState?.activeStep ?? 'discover',
+    )
+    const [basePortraitUrl, setBasePortraitUrl] = useState<string | null>(
+      () => sessionState?.portraitUrl ?? null,
+    )
     const [isPortraitUploading, setIsPortraitUploading] = useState(false)
     const [portraitError, setPortraitError] = useState<string | null>(null)
-    const [generatedOutfitUrl, setGeneratedOutfitUrl] = useState<string | null>(
-      null,
-    )
     const [isGeneratingOutfit, setIsGeneratingOutfit] = useState(false)
     const [outfitError, setOutfitError] = useState<string | null>(null)
+    const [tryOnProgress, setTryOnProgress] = useState<TryOnProgress | null>(
+      null,
+    )
     const [isAgentRunning, setIsAgentRunning] = useState(false)
+    const [isLoadingMoreProducts, setIsLoadingMoreProducts] = useState(false)
+    const [loadMoreError, setLoadMoreError] = useState<string | null>(null)
+    const [equipNotice, setEquipNotice] = useState<string | null>(null)
+    // Read out by screen readers; sighted shoppers see the change itself.
+    const [announcement, setAnnouncement] = useState('')
+    const [outfitSuggestions, setOutfitSuggestions] = useState<
+      OutfitSuggestion[]
+    >([])
     const portraitInputRef = useRef<HTMLInputElement | null>(null)
     const hasAttemptedAutoPortrait = useRef(false)
 
+    const { loadouts } = loadoutState
+    const activeLoadout =
+      loadouts.find((loadout) => loadout.id === loadoutState.activeId) ??
+      loadouts[0]
+    const equippedSlots = activeLoadout.equipped
+    // The outfit as of the last commit plus any equips made since, for
+    // handlers that need the result before React re-renders.
+    const latestEquippedRef = useRef(equippedSlots)
     useEffect(() => {
-      setProductDeck(initialProducts)
-      setSavedProducts([])
-      setEquippedSlots({})
-      setActiveStep('discover')
+      latestEquippedRef.current = equippedSlots
+    }, [equippedSlots])
+    // Renders are always made from the base portrait, never from a previous
+    // render, so the shopper's likeness doesn't drift between retries.
+    const portraitPreviewUrl =
+      tryOnProgress?.previewUrl ?? activeLoadout.renderUrl ?? basePortraitUrl
+
+    // The rest of the wardrobe edits "the outfit"; these route every change to
+    // whichever loadout is active.
+    const updateActiveLoadout = useCallback(
+      (update: (loadout: Loadout) => Partial<Loadout>) => {
+        setLoadoutState((prev) => ({
+          ...prev,
+          loadouts: prev.loadouts.map((loadout) =>
+            loadout.id === prev.activeId
+              ? {
+                  ...loadout,
+                  ...update(loadout),
+                  updatedAt: new Date().toISOString(),
+                }
+              : loadout,
+          ),
+        }))
+      },
+      [],
+    )
+
+    const setEquippedSlots = useCallback(
+      (next: EquippedState | ((prev: EquippedState) => EquippedState)) => {
+        updateActiveLoadout((loadout) => ({
+          equipped: typeof next === 'function' ? next(loadout.equipped) : next,
+        }))
+      },
+      [updateActiveLoadout],
+    )
+
+    const setGeneratedOutfitUrl = useCallback(
+      (renderUrl: string | null) => {
+        updateActiveLoadout(() => ({ renderUrl }))
+      },
+      [updateActiveLoadout],
+    )
+
+    // Try-ons finish after the shopper may have switched outfits, so the
+    // render goes to the loadout it was started from.
+    const setLoadoutRenderUrl = useCallback(
+      (loadoutId: string, renderUrl: string) => {
+        setLoadoutState((prev) => ({
+          ...prev,
+          loadouts: prev.loadouts.map((loadout) =>
+            loadout.id === loadoutId
+              ? { ...loadout, renderUrl, updatedAt: new Date().toISOString() }
+              : loadout,
+          ),
+        }))
+      },
+      [],
+    )
+
+    const handleSelectLoadout = useCallback((loadoutId: string) => {
+      setLoadoutState((prev) => ({ ...prev, activeId: loadoutId }))
+      setEquipNotice(null)
       setSelectedSlot(null)
-    }, [initialProducts])
+    }, [])
+
+    const handleCreateLoadout = useCallback(() => {
+      const name = window
+        .prompt('Name this outfit', nextLoadoutName(loadouts))
+        ?.trim()
+      if (!name) return
+      const loadout = createLoadout(name.slice(0, 60))
+      setLoadoutState((prev) => ({
+        loadouts: [...prev.loadouts, loadout],
+        activeId: loadout.id,
+      }))
+      setEquipNotice(null)
+    }, [loadouts])
+
+    const handleRenameLoadout = useCallback(() => {
+      const name = window
+        .prompt('Rename this outfit', activeLoadout.name)
+        ?.trim()
+      if (!name) return
+      updateActiveLoadout(() => ({ name: name.slice(0, 60) }))
+    }, [activeLoadout.name, updateActiveLoadout])
+
+    const handleDeleteLoadout = useCallback(() => {
+      if (loadouts.length < 2) return
+      if (!window.confirm(`Delete “${activeLoadout.name}”?`)) return
+      setLoadoutState((prev) => {
+        const remaining = prev.loadouts.filter(
+          (loadout) => loadout.id !== prev.activeId,
+        )
+        return { loadouts: remaining, activeId: remaining[0].id }
+      })
+    }, [activeLoadout.name, loadouts.length])
+
+    // New search batches only add cards; what the shopper already saved,
+    // passed on or equipped is left alone.
+    useEffect(() => {
+      setProductDeck((prev) =>
+        mergeUnseenProducts(prev, initialProducts, [
+          ...savedProducts.map((item) => item.id),
+          ...maybeLaterProducts.map((item) => item.id),
+          ...dismissedIds,
+        ]),
+      )
+    }, [dismissedIds, initialProducts, maybeLaterProducts, savedProducts])
+
+    useEffect(() => {
+      onSessionStateChange?.({
+        deck: productDeck,
+        saved: savedProducts,
+        dismissedIds,
+        maybeLater: maybeLaterProducts,
+        loadouts,
+        activeLoadoutId: activeLoadout.id,
+        activeStep,
+        // Blob URLs die with the page, so they are not worth restoring.
+        portraitUrl: basePortraitUrl?.startsWith('blob:')
+          ? null
+          : basePortraitUrl,
+        renders,
+      })
+    }, [
+      activeLoadout.id,
+      activeStep,
+      basePortraitUrl,
+      dismissedIds,
+      loadouts,
+      maybeLaterProducts,
+      onSessionStateChange,
+      productDeck,
+      renders,
+      savedProducts,
+    ])
 
     const hasAnyEquipped = useMemo(
       () => Object.values(equippedSlots).some(Boolean),
       [equippedSlots],
     )
 
-    const equippedCount = useMemo(
-      () => Object.values(equippedSlots).filter(Boolean).length,
+    const equippedIds = useMemo(
+      () =>
+        new Set(
+          getEquippedItems(equippedSlots).map(({ product }) => product.id),
+        ),
       [equippedSlots],
     )
 
+    const equippedCount = equippedIds.size
+
+    const budgetStatus = useMemo(
+      () =>
+        getBudgetStatus(
+          getEquippedItems(equippedSlots).map(({ product }) => product),
+          budget,
+        ),
+      [budget, equippedSlots],
+    )
+
+    const outfitWarnings = useMemo(
+      () => evaluateOutfit(equippedSlots, { activity: lastQuery }),
+      [equippedSlots, lastQuery],
+    )
+
     const canAdvanceToWardrobe = savedProducts.length > 0
 
     const wardrobeStatusMessage = useMemo(() => {
@@ -320,38 +500,167 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
       setActiveStep('discover')
     }, [])
 
-    const handleProductSwipe = useCallback(
-      (product: ProductSummary, direction: SwipeDirection) => {
-        setProductDeck((prev) => prev.filter((item) => item.id !== product.id))
+    // What undo/redo restores: the deck and every loadout, not the portrait.
+    const historySnapshot = useMemo<WardrobeSnapshot>(
+      () => ({
+        deck: productDeck,
+        saved: savedProducts,
+        dismissedIds,
+        maybeLater: maybeLaterProducts,
+        loadoutState,
+      }),
+      [
+        dismissedIds,
+        loadoutState,
+        maybeLaterProducts,
+        productDeck,
+        savedProducts,
+      ],
+    )
 
-        if (direction !== 'right') return
+    const recordAction = useCallback(
+      (label: string) => {
+        setHistory((prev) => recordHistory(prev, label, historySnapshot))
+      },
+      [historySnapshot],
+    )
 
-        setSavedProducts((prev) => {
-          if (prev.some((item) => item.id === product.id)) return prev
-          return [...prev, product]
-        })
+    const restoreSnapshot = useCallback((snapshot: WardrobeSnapshot) => {
+      setProductDeck(snapshot.deck)
+      setSavedProducts(snapshot.saved)
+      setDismissedIds(snapshot.dismissedIds)
+      setMaybeLaterProducts(snapshot.maybeLater)
+      setLoadoutState(snapshot.loadoutState)
+      setEquipNotice(null)
+      setSelectedSlot(null)
+    }, [])
+
+    const handleUndo = useCallback(() => {
+      const result = undoHistory(history, historySnapshot)
+      if (!result) return 'Nothing to undo.'
+      setHistory(result.history)
+      restoreSnapshot(result.entry.snapshot)
+      setAnnouncement(`Undid ${result.entry.label}.`)
+      return `Undid ${result.entry.label}.`
+    }, [history, historySnapshot, restoreSnapshot])
+
+    const handleRedo = useCallback(() => {
+      const result = redoHistory(history, historySnapshot)
+      if (!result) return 'Nothing to redo.'
+      setHistory(result.history)
+      restoreSnapshot(result.entry.snapshot)
+      setAnnouncement(`Redid ${result.entry.label}.`)
+      return `Redid ${result.entry.label}.`
+    }, [history, historySnapshot, restoreSnapshot])
+
+    useEffect(() => {
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (!(event.metaKey || event.ctrlKey) || event.altKey) return
+        if (isTypingTarget(event.target)) return
+
+        const key = event.key.toLowerCase()
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault()
+          handleUndo()
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+          event.preventDefault()
+          handleRedo()
+        }
+      }
+      window.addEventListener('keydown', handleKeyDown)
+      return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [handleRedo, handleUndo])
+
+    const handleLoadMoreProducts = useCallback(async () => {
+      if (!onLoadMoreProducts || !hasMoreProducts || isLoadingMoreProducts) {
+        return
+      }
+
+      setIsLoadingMoreProducts(true)
+      setLoadMoreError(null)
+      try {
+        const nextPage = await onLoadMoreProducts()
+        if (!nextPage.length) return
+
+        setProductDeck((prev) =>
+          mergeUnseenProducts(prev, nextPage, [
+            ...savedProducts.map((item) => item.id),
+            ...maybeLaterProducts.map((item) => item.id),
+            ...dismissedIds,
+          ]),
+        )
+      } catch (error) {
+        setLoadMoreError(
+          error instanceof Error
+            ? error.message
+            : 'Could not load more wardrobe items. Please try again.',
+        )
+      } finally {
+        setIsLoadingMoreProducts(false)
+      }
+    }, [
+      dismissedIds,
+      hasMoreProducts,
+      isLoadingMoreProducts,
+      maybeLaterProducts,
+      onLoadMoreProducts,
+      savedProducts,
+    ])
+
+    // Returns the resulting outfit and a note describing anything the new item
+    // pushed out.
+    const assignSlot = useCallback(
+      (slotId: SlotId, product: ProductSummary) => {
+        // Quick successive equips (voice and taps together) can land before a
+        // re-render, so the result is worked out from the latest outfit rather
+        // than this render's, and the state update applies to whatever is
+        // current by then.
+        const { equipped, displaced } = equipProduct(
+          latestEquippedRef.current,
+          slotId,
+          product,
+        )
+        latestEquippedRef.current = equipped
+        setEquippedSlots((prev) => equipProduct(prev, slotId, product).equipped)
+        const notice = describeDisplaced(product, displaced)
+        setEquipNotice(notice)
+        setSelectedSlot(null)
+        setAnnouncement(
+          [
+            `Equipped ${product.name} to the ${getSlotLabel(slotId).toLowerCase()} slot.`,
+            notice,
+          ]
+            .filter(Boolean)
+            .join(' '),
+        )
+        return { equipped, notice }
       },
-      [],
+      [setEquippedSlots],
     )
 
     const handleAssignSlot = useCallback(
       (slotId: SlotId, product: ProductSummary) => {
-        setEquippedSlots((prev) => ({
-          ...prev,
-          [slotId]: product,
-        }))
-        setSelectedSlot(null)
+        recordAction(`equipping ${product.name}`)
+        return assignSlot(slotId, product)
       },
-      [],
+      [assignSlot, recordAction],
     )
 
-    const handleClearSlot = useCallback((slotId: SlotId) => {
-      setEquippedSlots((prev) => {
-        const next = { ...prev }
-        delete next[slotId]
-        return next
-      })
-    }, [])
+    const handleClearSlot = useCallback(
+      (slotId: SlotId) => {
+        recordAction(`clearing the ${getSlotLabel(slotId).toLowerCase()} slot`)
+        setEquippedSlots((prev) => {
+          const next = { ...prev }
+          delete next[slotId]
+          return next
+        })
+        setEquipNotice(null)
+        setAnnouncement(
+          `Cleared the ${getSlotLabel(slotId).toLowerCase()} slot.`,
+        )
+      },
+      [recordAction, setEquippedSlots],
+    )
 
     const ensureProductSaved = useCallback((product: ProductSummary) => {
       setProductDeck((prev) => prev.filter((item) => item.id !== product.id))
@@ -361,6 +670,159 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
       })
     }, [])
 
+    const takeOutOfSaved = useCallback((productId: string) => {
+      setSavedProducts((prev) => prev.filter((item) => item.id !== productId))
+      setLoadoutState((prev) => ({
+        ...prev,
+        loadouts: removeProductFromLoadouts(prev.loadouts, productId),
+      }))
+      setEquipNotice(null)
+    }, [])
+
+    const handleRemoveSaved = useCallback(
+      (productId: string) => {
+        const product = savedProducts.find((item) => item.id === productId)
+        if (!product) return
+        recordAction(`removing ${product.name}`)
+        takeOutOfSaved(productId)
+        setDismissedIds((prev) =>
+          prev.includes(productId) ? prev : [...prev, productId],
+        )
+      },
+      [recordAction, savedProducts, takeOutOfSaved],
+    )
+
+    const handleReturnSavedToDeck = useCallback(
+      (productId: string) => {
+        const product = savedProducts.find((item) => item.id === productId)
+        if (!product) return
+        recordAction(`moving ${product.name} back to the deck`)
+        takeOutOfSaved(productId)
+        setProductDeck((prev) => [
+          product,
+          ...prev.filter((item) => item.id !== productId),
+        ])
+      },
+      [recordAction, savedProducts, takeOutOfSaved],
+    )
+
+    const handleOverrideSavedSlot = useCallback(
+      (productId: string, slotId: SlotId | null) => {
+        const product = savedProducts.find((item) => item.id === productId)
+        if (!product) return
+        recordAction(
+          slotId
+            ? `moving ${product.name} to the ${getSlotLabel(slotId).toLowerCase()} slot`
+            : `resetting the slot for ${product.name}`,
+        )
+        setSavedProducts((prev) =>
+          prev.map((item) => {
+            if (item.id !== productId) return item
+            const next = { ...item }
+            if (slotId) {
+              next.slotOverride = slotId
+            } else {
+              delete next.slotOverride
+            }
+            return next
+          }),
+        )
+      },
+      [recordAction, savedProducts],
+    )
+
+    const handleMoveSaved = useCallback(
+      (productId: string, offset: -1 | 1) => {
+        const index = savedProducts.findIndex((item) => item.id === productId)
+        const target = index + offset
+        if (index < 0 || target < 0 || target >= savedProducts.length) return
+        recordAction('reordering saved items')
+        const next = [...savedProducts]
+        ;[next[index], next[target]] = [next[target], next[index]]
+        setSavedProducts(next)
+      },
+      [recordAction, savedProducts],
+    )
+
+    const handleProductSwipe = useCallback(
+      (product: ProductSummary, direction: SwipeDirection) => {
+        recordAction(`${SWIPE_ACTION_LABELS[direction]} ${product.name}`)
+        setProductDeck((prev) => prev.filter((item) => item.id !== product.id))
+
+        if (direction === 'left') {
+          setDismissedIds((prev) =>
+            prev.includes(product.id) ? prev : [...prev, product.id],
+          )
+          setEquipNotice(null)
+          setAnnouncement(`Passed on ${product.name}.`)
+          return
+        }
+
+        if (direction === 'down') {
+          setMaybeLaterProducts((prev) =>
+            prev.some((item) => item.id === product.id)
+              ? prev
+              : [...prev, product],
+          )
+          setEquipNotice(null)
+          setAnnouncement(`${product.name} moved to maybe later.`)
+          return
+        }
+
+        ensureProductSaved(product)
+        if (direction === 'right') {
+          setEquipNotice(null)
+          setAnnouncement(`Saved ${product.name}.`)
+          return
+        }
+
+        const slotId = getBestSlot(product)
+        if (!slotId) {
+          const message = `Saved ${product.name}, but it didn't clearly fit a slot. Assign it from the wardrobe.`
+          setEquipNotice(message)
+          setAnnouncement(message)
+          return
+        }
+        // assignSlot sets the notice and announces the equip.
+        assignSlot(slotId, product)
+      },
+      [assignSlot, ensureProductSaved, recordAction],
+    )
+
+    // Keyboard equip from the deck: the shopper picked the slot with a number
+    // key instead of leaving it to the best guess.
+    const handleDeckEquip = useCallback(
+      (product: ProductSummary, slotId: SlotId) => {
+        recordAction(`equipping ${product.name}`)
+        ensureProductSaved(product)
+        assignSlot(slotId, product)
+      },
+      [assignSlot, ensureProductSaved, recordAction],
+    )
+
+    // Maybe-later cards go back under the deck, behind everything unseen.
+    const requeueMaybeLater = useCallback(() => {
+      if (!maybeLaterProducts.length) return
+      setProductDeck((prev) => {
+        const deckIds = new Set(prev.map((item) => item.id))
+        return [
+          ...maybeLaterProducts.filter((item) => !deckIds.has(item.id)),
+          ...prev,
+        ]
+      })
+      setMaybeLaterProducts([])
+    }, [maybeLaterProducts])
+
+    useEffect(() => {
+      if (productDeck.length || isLoadingMoreProducts || hasMoreProducts) return
+      requeueMaybeLater()
+    }, [
+      hasMoreProducts,
+      isLoadingMoreProducts,
+      productDeck.length,
+      requeueMaybeLater,
+    ])
+
     const findProductCandidate = useCallback(
       ({
         productId,
@@ -393,13 +855,17 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
         productId,
         productName,
       }: {
-        slotId: string
+        slotId?: string
         productId?: string
         productName?: string
       }) => {
-        const normalizedSlot = slotId?.toLowerCase()
-        if (!normalizedSlot || !isSlotId(normalizedSlot)) {
-          return 'Choose a valid wardrobe slot (head, chest, waist, legs, feet, ears, neck, bag, hand, or ring).'
+        const requestedSlot = slotId?.trim().toLowerCase()
+        if (
+          requestedSlot &&
+          requestedSlot !== 'auto' &&
+          !isSlotId(requestedSlot)
+        ) {
+          return `Choose a valid wardrobe slot (${describeSlotIds()}), or leave it out and I will pick the best fit.`
         }
         const normalizedQuery = productName?.trim().toLowerCase()
         if (!productId && !normalizedQuery) {
@@ -413,28 +879,44 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
           return 'I could not find that product in the saved wardrobe yet.'
         }
 
+        const normalizedSlot =
+          requestedSlot && isSlotId(requestedSlot)
+            ? requestedSlot
+            : getBestSlot(product)
+        if (!normalizedSlot) {
+          return `I'm not sure which slot ${product.name} belongs in. Tell me the slot to use.`
+        }
+
+        recordAction(`equipping ${product.name} by voice`)
         ensureProductSaved(product)
-        handleAssignSlot(normalizedSlot, product)
-        const slotLabel = SLOT_LABELS[normalizedSlot] ?? normalizedSlot
-        return `Equipped ${product.name} to the ${slotLabel}.`
+        const { equipped, notice } = assignSlot(normalizedSlot, product)
+        const slotLabel = getSlotLabel(normalizedSlot)
+        const warnings = evaluateOutfit(equipped, { activity: lastQuery })
+        const equippedBudget = getBudgetStatus(
+          getEquippedItems(equipped).map((item) => item.product),
+          budget,
+        )
+        return [
+          `Equipped ${product.name} to the ${slotLabel}.`,
+          notice,
+          describeOutfitWarnings(warnings),
+          budget ? describeBudgetStatus(equippedBudget) : null,
+        ]
+          .filter(Boolean)
+          .join(' ')
       },
-      [ensureProductSaved, findProductCandidate, handleAssignSlot],
+      [
+        assignSlot,
+        budget,
+        ensureProductSaved,
+        findProductCandidate,
+        lastQuery,
+        recordAction,
+      ],
     )
 
-    const formatCurrency = useCallback((price: number, currency: string) => {
-      try {
-        return new Intl.NumberFormat('en-US', {
-          style: 'currency',
-          currency: currency || 'USD',
-          maximumFractionDigits: 0,
-        }).format(price)
-      } catch {
-        return `$${price.toFixed(2)}`
-      }
-    }, [])
-
     const slotOptionsMap = useMemo(() => {
-      const map = allSlotIds.reduce(
+      const map = SLOT_IDS.reduce(
         (acc, slotId) => {
           acc[slotId] = []
           return acc
@@ -443,29 +925,129 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
       )
 
       savedProducts.forEach((product) => {
-        const matchedSlots: SlotId[] = []
-        allSlotIds.forEach((slotId) => {
-          if (productMatchesSlot(product, slotId)) {
-            matchedSlots.push(slotId)
-          }
+        getSavedProductSlots(product).slotIds.forEach((slotId) => {
+          map[slotId]?.push(product)
         })
+      })
 
-        if (matchedSlots.length === 0) {
-          const fallback = slotFallbackPriority.find((slotId) => map[slotId])
-          if (fallback) {
-            map[fallback].push(product)
-          }
-          return
-        }
-
-        matchedSlots.forEach((slotId) => {
-          map[slotId].push(product)
-        })
+      // Shopper overrides, then strongest matches, within each slot. Ties
+      // keep the order of the saved-items tray.
+      SLOT_IDS.forEach((slotId) => {
+        const confidenceFor = (product: ProductSummary) =>
+          product.slotOverride === slotId
+            ? OVERRIDE_CONFIDENCE
+            : (getSlotCandidates(product).find(
+                (candidate) => candidate.slotId === slotId,
+              )?.confidence ?? 0)
+        map[slotId].sort((a, b) => confidenceFor(b) - confidenceFor(a))
       })
 
       return map
     }, [savedProducts])
 
+    // Suggestions for slots that have since been filled drop out on their own.
+    const pendingSuggestions = useMemo(
+      () =>
+        outfitSuggestions.filter(
+          ({ slotId }) =>
+            !equippedSlots[slotId] && !getCoveringSlot(equippedSlots, slotId),
+        ),
+      [equippedSlots, outfitSuggestions],
+    )
+
+    const handleAutoComplete = useCallback(() => {
+      const suggestions = suggestOutfitCompletion({
+        equipped: equippedSlots,
+        slotOptions: slotOptionsMap,
+        deck: productDeck,
+        budget,
+        activity: lastQuery,
+      })
+      setOutfitSuggestions(suggestions)
+      if (!suggestions.length) {
+        const message = budget
+          ? 'Nothing saved or queued fits the empty slots within your budget.'
+          : 'Nothing saved or queued fits the empty slots.'
+        setEquipNotice(message)
+        return message
+      }
+      setEquipNotice(null)
+      return `Suggested ${suggestions.length} item${
+        suggestions.length === 1 ? '' : 's'
+      }. ${describeOutfitSuggestions(suggestions)} Accept or skip each one.`
+    }, [budget, equippedSlots, lastQuery, productDeck, slotOptionsMap])
+
+    const acceptSuggestions = useCallback(
+      (suggestions: OutfitSuggestion[]) => {
+        if (!suggestions.length) return
+        recordAction(
+          suggestions.length === 1
+            ? `auto-completing with ${suggestions[0].product.name}`
+            : `auto-completing ${suggestions.length} slots`,
+        )
+        suggestions.forEach(({ product }) => ensureProductSaved(product))
+        setEquippedSlots((prev) =>
+          suggestions.reduce(
+            (current, { slotId, product }) =>
+              equipProduct(current, slotId, product).equipped,
+            prev,
+          ),
+        )
+        setEquipNotice(null)
+        setSelectedSlot(null)
+        setAnnouncement(
+          `Equipped ${suggestions.map(({ product }) => product.name).join(', ')}.`,
+        )
+        const acceptedSlots = new Set(suggestions.map(({ slotId }) => slotId))
+        setOutfitSuggestions((prev) =>
+          prev.filter(({ slotId }) => !acceptedSlots.has(slotId)),
+        )
+      },
+      [ensureProductSaved, recordAction, setEquippedSlots],
+    )
+
+    const rejectSuggestion = useCallback((slotId: SlotId) => {
+      setOutfitSuggestions((prev) =>
+        prev.filter((suggestion) => suggestion.slotId !== slotId),
+      )
+    }, [])
+
+    const handleReviewSuggestion = useCallback(
+      ({ slotId, accept }: { slotId?: string; accept: boolean }) => {
+        if (!pendingSuggestions.length) {
+          return 'There are no auto-complete suggestions to review.'
+        }
+        const normalized = slotId?.trim().toLowerCase()
+        if (!normalized || normalized === 'all') {
+          if (accept) {
+            acceptSuggestions(pendingSuggestions)
+          } else {
+            setOutfitSuggestions([])
+          }
+          return accept
+            ? `Equipped all ${pendingSuggestions.length} suggestions.`
+            : 'Dismissed the suggestions.'
+        }
+        const suggestion = pendingSuggestions.find(
+          (entry) => entry.slotId === normalized,
+        )
+        if (!suggestion) {
+          return `There is no suggestion for that slot. Pending: ${pendingSuggestions
+            .map((entry) => entry.slotId)
+            .join(', ')}.`
+        }
+        if (accept) {
+          acceptSuggestions([suggestion])
+        } else {
+          rejectSuggestion(suggestion.slotId)
+        }
+        return accept
+          ? `Equipped ${suggestion.product.name}.`
+          : `Skipped ${suggestion.product.name}.`
+      },
+      [acceptSuggestions, pendingSuggestions, rejectSuggestion],
+    )
+
     const handlePortraitFileChange = useCallback(
       async (event: ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0] ?? null
@@ -516,7 +1098,7 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
             throw new Error('No portrait returned from processor.')
           }
 
-          setPortraitPreviewUrl((old) => {
+          setBasePortraitUrl((old) => {
             if (old && old.startsWith('blob:')) URL.revokeObjectURL(old)
             return imageUrl
           })
@@ -533,7 +1115,7 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
           if (portraitInputRef.current) portraitInputRef.current.value = ''
         }
       },
-      [],
+      [setGeneratedOutfitUrl],
     )
 
     const loadTommyPortrait = useCallback(async () => {
@@ -567,7 +1149,7 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
           reader.readAsDataURL(blob)
         })
 
-        setPortraitPreviewUrl((old) => {
+        setBasePortraitUrl((old) => {
           if (old && old.startsWith('blob:')) URL.revokeObjectURL(old)
           return dataUrl
         })
@@ -587,7 +1169,7 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
       } finally {
         setIsPortraitUploading(false)
       }
-    }, [isPortraitUploading])
+    }, [isPortraitUploading, setGeneratedOutfitUrl])
 
     const openPortraitPicker = useCallback(async () => {
       if (isPortraitUploading) return
@@ -607,61 +1189,77 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
         hasAttemptedAutoPortrait.current = false
         return
       }
-      if (portraitPreviewUrl || hasAttemptedAutoPortrait.current) {
+      if (basePortraitUrl || hasAttemptedAutoPortrait.current) {
         return
       }
       hasAttemptedAutoPortrait.current = true
       void loadTommyPortrait()
-    }, [activeStep, portraitPreviewUrl, loadTommyPortrait])
+    }, [activeStep, basePortraitUrl, loadTommyPortrait])
 
-    const handleRunAgent = useCallback(async () => {
-      if (isAgentRunning) {
-        return 'Purchase already in progress.'
-      }
+    const handleRunAgent = useCallback(
+      async ({ overrideBudget = false }: { overrideBudget?: boolean } = {}) => {
+        if (isAgentRunning) {
+          return 'Purchase already in progress.'
+        }
 
-      const purchaseItems = allSlotIds.reduce<SelectedWardrobeItem[]>(
-        (acc, slotId) => {
-          const product = equippedSlots[slotId]
-          if (!product) return acc
-          acc.push({
-            ...product,
-            slotId,
-          })
-          return acc
-        },
-        [],
-      )
+        const purchaseItems: SelectedWardrobeItem[] = getEquippedItems(
+          equippedSlots,
+        ).map(({ slotId, product }) => ({
+          ...product,
+          slotId,
+        }))
 
-      if (!purchaseItems.length) {
-        const message = 'Equip at least one slot before purchasing.'
-        setPortraitError(message)
-        return message
-      }
+        if (!purchaseItems.length) {
+          const message = 'Equip at least one slot before purchasing.'
+          setPortraitError(message)
+          return message
+        }
 
-      setIsAgentRunning(true)
-      setPortraitError(null)
-      try {
-        await runAgent(purchaseItems)
-        return `Purchasing ${purchaseItems.length} item${
-          purchaseItems.length === 1 ? '' : 's'
-        }.`
-      } catch (error) {
-        const message =
-          error instanceof Error
-            ? error.message
-            : 'Failed to run agent. Please try again.'
-        setPortraitError(message)
-        return message
-      } finally {
-        setIsAgentRunning(false)
+        setIsAgentRunning(true)
+        setPortraitError(null)
+        try {
+          const result = await runAgent(purchaseItems, {
+            budget,
+            overrideBudget,
+          })
+          if (result.status === 'over-budget') {
+            setPortraitError(result.message)
+            return result.message
+          }
+          return `Purchasing ${purchaseItems.length} item${
+            purchaseItems.length === 1 ? '' : 's'
+          }.`
+        } catch (error) {
+          const message =
+            error instanceof Error
+              ? error.message
+              : 'Failed to run agent. Please try again.'
+          setPortraitError(message)
+          return message
+        } finally {
+          setIsAgentRunning(false)
+        }
+      },
+      [budget, equippedSlots, isAgentRunning],
+    )
+
+    const handlePurchaseClick = useCallback(() => {
+      if (
+        budgetStatus.isOverBudget &&
+        !window.confirm(
+          `${describeBudgetStatus(budgetStatus)} Purchase anyway?`,
+        )
+      ) {
+        return
       }
-    }, [equippedSlots, isAgentRunning])
+      void handleRunAgent({ overrideBudget: budgetStatus.isOverBudget })
+    }, [budgetStatus, handleRunAgent])
 
     const handleGenerateOutfit = useCallback(async () => {
       if (isGeneratingOutfit) {
         return 'Already generating an outfit preview.'
       }
-      if (!portraitPreviewUrl) {
+      if (!basePortraitUrl) {
         const message = 'Upload a portrait before generating an outfit.'
         setOutfitError(message)
         return message
@@ -675,26 +1273,64 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
       setIsGeneratingOutfit(true)
       setOutfitError(null)
       try {
-        const slotsPayload = allSlotIds.reduce<
+        const slotsPayload = SLOT_IDS.reduce<
           Record<SlotId, WardrobeSlotImage | null>
         >(
           (acc, slotId) => {
-            const product = equippedSlots[slotId]
-            acc[slotId] = product?.imageUrl
-              ? { imageUrl: product.imageUrl }
-              : null
+            acc[slotId] = null
             return acc
           },
           {} as Record<SlotId, WardrobeSlotImage | null>,
         )
+        const renderedEquipped = equippedSlots
+        const renderedLoadoutId = activeLoadout.id
+        getEquippedItems(equippedSlots).forEach(({ slotId, product }) => {
+          if (product.imageUrl) {
+            slotsPayload[slotId] = { imageUrl: product.imageUrl }
+          }
+        })
 
-        const result = await generateOutfitImage({
-          portrait: { dataUrl: portraitPreviewUrl },
+        const { id } = await startOutfitImageJob({
+          portrait: { dataUrl: basePortraitUrl },
           slots: slotsPayload,
+          seed: getNextRenderSeed(renders, equippedSlots),
         })
+        setTryOnProgress(createTryOnProgress(id))
+        const result = await followTryOnJob(
+          id,
+          (event) => {
+            setTryOnProgress((prev) => prev && applyTryOnJobEvent(prev, event))
+            if (event.type === 'pass-started') {
+              setAnnouncement(
+                `Applying the ${describeTryOnSlots(event.slotIds)}, pass ${
+                  event.pass
+                } of ${event.totalPasses}.`,
+              )
+            }
+          },
+          { cancelJob: cancelOutfitImageJob },
+        )
 
-        setGeneratedOutfitUrl(result.image)
-        setPortraitPreviewUrl(result.image)
+        if (result.type === 'cancelled') {
+          setAnnouncement('Try-on cancelled.')
+          return 'Try-on cancelled.'
+        }
+        if (result.type === 'failed') {
+          throw new Error(result.error)
+        }
+        setLoadoutRenderUrl(renderedLoadoutId, result.image)
+        setRenders((prev) =>
+          addTryOnRender(
+            prev,
+            createTryOnRender({
+              imageUrl: result.image,
+              equipped: renderedEquipped,
+              seed: result.seed,
+              modelVersion: result.modelVersion,
+            }),
+          ),
+        )
+        setAnnouncement('Try-on ready. The outfit is applied to your portrait.')
         return 'Outfit applied to your portrait.'
       } catch (error) {
         const message =
@@ -702,25 +1338,133 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
             ? error.message
             : 'Failed to generate outfit. Please try again.'
         setOutfitError(message)
+        setAnnouncement(`Try-on failed. ${message}`)
         return message
       } finally {
         setIsGeneratingOutfit(false)
+        setTryOnProgress(null)
+      }
+    }, [
+      activeLoadout.id,
+      basePortraitUrl,
+      equippedSlots,
+      hasAnyEquipped,
+      isGeneratingOutfit,
+      renders,
+      setLoadoutRenderUrl,
+    ])
+
+    const handleStartTryOn = useCallback(() => {
+      if (isGeneratingOutfit) return describeTryOnProgress(tryOnProgress)
+      if (!basePortraitUrl) {
+        return 'Upload a portrait before generating an outfit.'
+      }
+      if (!hasAnyEquipped) {
+        return 'Equip at least one slot using your saved finds first.'
+      }
+      void handleGenerateOutfit()
+      return 'Starting the try-on. Ask for progress to hear which garment is being applied.'
+    }, [
+      basePortraitUrl,
+      handleGenerateOutfit,
+      hasAnyEquipped,
+      isGeneratingOutfit,
+      tryOnProgress,
+    ])
+
+    const handleGetTryOnProgress = useCallback(
+      () => describeTryOnProgress(tryOnProgress),
+      [tryOnProgress],
+    )
+
+    const handleCancelTryOn = useCallback(async () => {
+      if (!tryOnProgress) return 'No try-on is running.'
+      try {
+        return (await cancelOutfitImageJob(tryOnProgress.jobId))
+          ? 'Cancelling the try-on.'
+          : 'The try-on already finished.'
+      } catch (error) {
+        console.error('Failed to cancel the try-on:', error)
+        return 'Unable to cancel the try-on right now.'
       }
-    }, [equippedSlots, hasAnyEquipped, isGeneratingOutfit, portraitPreviewUrl])
+    }, [tryOnProgress])
+
+    const handleReequipRender = useCallback(
+      (renderId: string) => {
+        const render = renders.find((item) => item.id === renderId)
+        if (!render) return
+        const products = getEquippedItems(render.equipped).map(
+          ({ product }) => product,
+        )
+        const savedIds = new Set(savedProducts.map((item) => item.id))
+        // Items may have been removed from saved since the render was made.
+        const restored = products.filter((product) => !savedIds.has(product.id))
+        const restoredIds = new Set(restored.map((product) => product.id))
+
+        recordAction('re-equipping a past try-on')
+        if (restored.length) {
+          setSavedProducts((prev) => [...prev, ...restored])
+          setProductDeck((prev) =>
+            prev.filter((item) => !restoredIds.has(item.id)),
+          )
+          setMaybeLaterProducts((prev) =>
+            prev.filter((item) => !restoredIds.has(item.id)),
+          )
+          setDismissedIds((prev) => prev.filter((id) => !restoredIds.has(id)))
+        }
+        updateActiveLoadout(() => ({
+          equipped: render.equipped,
+          renderUrl: render.imageUrl,
+        }))
+        setSelectedSlot(null)
+        setEquipNotice(null)
+        setAnnouncement(
+          `Re-equipped ${products.length} item${
+            products.length === 1 ? '' : 's'
+          } from the ${formatTryOnRenderTime(render)} try-on.`,
+        )
+      },
+      [recordAction, renders, savedProducts, updateActiveLoadout],
+    )
+
+    const handleRemoveRender = useCallback((renderId: string) => {
+      setRenders((prev) => prev.filter((render) => render.id !== renderId))
+    }, [])
+
+    const handleUseRenderAsBase = useCallback(() => {
+      const { renderUrl } = activeLoadout
+      if (!renderUrl) return
+      setBasePortraitUrl(renderUrl)
+      setAnnouncement(
+        'This try-on is now your base portrait. New try-ons start from it.',
+      )
+    }, [activeLoadout])
 
     useImperativeHandle(
       ref,
       () => ({
         equipProduct: handleVoiceEquipProduct,
         generateOutfit: handleGenerateOutfit,
+        startTryOn: handleStartTryOn,
+        getTryOnProgress: handleGetTryOnProgress,
+        cancelTryOn: handleCancelTryOn,
         purchaseEquipped: handleRunAgent,
         goToWardrobeStep,
+        undoLastAction: handleUndo,
+        autoCompleteOutfit: handleAutoComplete,
+        reviewOutfitSuggestion: handleReviewSuggestion,
       }),
       [
+        handleAutoComplete,
+        handleReviewSuggestion,
         handleVoiceEquipProduct,
+        handleCancelTryOn,
         handleGenerateOutfit,
+        handleGetTryOnProgress,
         handleRunAgent,
+        handleStartTryOn,
         goToWardrobeStep,
+        handleUndo,
       ],
     )
 
@@ -731,11 +1475,17 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
       const slotId = slot.id
       const Icon = slot.icon
       const isSelected = selectedSlot === slotId
-      const slotLabel = SLOT_LABELS[slotId]
+      const slotLabel = getSlotLabel(slotId)
       const contentId = `wardrobe-slot-${slotId}`
       const assignedProduct = equippedSlots[slotId]
       const isEquipped = !!assignedProduct
+      const coveringSlot = isEquipped
+        ? null
+        : getCoveringSlot(equippedSlots, slotId)
+      const coveringProduct = coveringSlot ? equippedSlots[coveringSlot] : null
+      const displayedProduct = assignedProduct ?? coveringProduct
       const slotOptions = slotOptionsMap[slotId] ?? []
+      const isCompact = equipmentSlots[side].length > COMPACT_SLOT_THRESHOLD
 
       return (
         <Popover
@@ -752,35 +1502,47 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
               aria-expanded={isSelected}
               aria-controls={contentId}
               className={cn(
-                'relative flex h-24 w-24 items-center justify-center rounded-3xl border cursor-pointer overflow-hidden backdrop-blur-xl transition',
+                'relative flex items-center justify-center border cursor-pointer overflow-hidden backdrop-blur-xl transition',
+                isCompact ? 'h-16 w-16 rounded-2xl' : 'h-24 w-24 rounded-3xl',
                 isEquipped
                   ? 'border-sky-500 bg-white/40 dark:border-sky-500/70 dark:bg-white/20'
                   : 'border-white/50 bg-white/30 dark:border-white/20 dark:bg-white/10',
                 'hover:border-white/70 hover:bg-white/40 dark:hover:border-white/30 dark:hover:bg-white/15',
               )}>
-              {assignedProduct ? (
-                <div className="relative h-full w-full">
-                  {assignedProduct.imageUrl ? (
+              {displayedProduct ? (
+                <div
+                  className={cn(
+                    'relative h-full w-full',
+                    coveringProduct && 'opacity-40 grayscale',
+                  )}>
+                  {displayedProduct.imageUrl ? (
                     <Image
-                      src={assignedProduct.imageUrl}
-                      alt={assignedProduct.name}
+                      src={displayedProduct.imageUrl}
+                      alt={displayedProduct.name}
                       fill
                       className="object-cover"
-                      sizes="96px"
+                      sizes={isCompact ? '64px' : '96px'}
                     />
                   ) : (
                     <div className="flex h-full w-full items-center justify-center bg-gradient-to-br from-slate-200 to-slate-400 text-center text-xs font-semibold text-slate-700 dark:from-slate-700 dark:to-slate-900 dark:text-white">
-                      {assignedProduct.name}
+                      {displayedProduct.name}
                     </div>
                   )}
                 </div>
               ) : (
-                <Icon className="h-12 w-12 text-gray-400 dark:text-gray-500" />
+                <Icon
+                  className={cn(
+                    'text-gray-400 dark:text-gray-500',
+                    isCompact ? 'h-8 w-8' : 'h-12 w-12',
+                  )}
+                />
               )}
             </Button>
           </PopoverTrigger>
           <PopoverContent
             id={contentId}
+            aria-label={`${slotLabel} options`}
+            onKeyDown={handleSlotOptionKeyDown}
             className="w-80 sm:w-96"
             side={side === 'left' ? 'right' : 'left'}
             sideOffset={12}>
@@ -791,6 +1553,12 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                   <p className="text-xs text-muted-foreground">
                     Equipped with {assignedProduct.name}
                   </p>
+                ) : coveringProduct && coveringSlot ? (
+                  <p className="text-xs text-muted-foreground">
+                    Covered by {coveringProduct.name} in the{' '}
+                    {getSlotLabel(coveringSlot).toLowerCase()} slot. Equipping
+                    something here will take it off.
+                  </p>
                 ) : (
                   <p className="text-xs text-muted-foreground">
                     Swipe right on a surf find to save it as an option for this
@@ -800,12 +1568,17 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
               </div>
               {slotOptions.length > 0 ? (
                 <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
-                  {slotOptions.map((option) => {
+                  {slotOptions.map((option, index) => {
                     const isActive = assignedProduct?.id === option.id
                     return (
                       <button
                         key={option.id}
                         type="button"
+                        data-slot-option
+                        aria-pressed={isActive}
+                        aria-keyshortcuts={
+                          index < 9 ? String(index + 1) : undefined
+                        }
                         onClick={() => handleAssignSlot(slotId, option)}
                         className={cn(
                           'group flex w-full items-center gap-3 rounded-3xl border px-3 py-2 text-left text-sm transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500',
@@ -841,9 +1614,19 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                         <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
                           {formatCurrency(option.price, option.currency)}
                         </span>
+                        {index < 9 ? (
+                          <kbd
+                            aria-hidden
+                            className="rounded border border-black/10 px-1.5 text-[10px] text-muted-foreground dark:border-white/20">
+                            {index + 1}
+                          </kbd>
+                        ) : null}
                       </button>
                     )
                   })}
+                  <p className="text-[11px] text-muted-foreground">
+                    Press 1–9 or the arrow keys to pick, Enter to equip.
+                  </p>
                 </div>
               ) : (
                 <p className="text-xs text-muted-foreground">
@@ -869,6 +1652,9 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
 
     return (
       <>
+        <p role="status" aria-live="polite" className="sr-only">
+          {announcement}
+        </p>
         <input
           ref={portraitInputRef}
           type="file"
@@ -913,6 +1699,41 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
             })}
           </div>
 
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                handleUndo()
+              }}
+              disabled={!history.past.length}
+              title={
+                history.past.length
+                  ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)`
+                  : 'Nothing to undo'
+              }
+              className="cursor-pointer">
+              <Undo2 /> Undo
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                handleRedo()
+              }}
+              disabled={!history.future.length}
+              title={
+                history.future.length
+                  ? `Redo ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)`
+                  : 'Nothing to redo'
+              }
+              className="cursor-pointer">
+              <Redo2 /> Redo
+            </Button>
+          </div>
+
           {shouldShowWardrobeStatus && (
             <div className="flex flex-col gap-2 rounded-3xl border border-white/30 bg-white/40 px-4 py-3 text-sm shadow-sm dark:border-white/10 dark:bg-slate-900/70">
               <div className="flex flex-wrap items-center gap-3">
@@ -942,9 +1763,17 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                 products={productDeck}
                 savedCount={savedProducts.length}
                 onProductSwipe={handleProductSwipe}
+                onEquipToSlot={handleDeckEquip}
                 formatCurrency={formatCurrency}
                 onContinue={goToWardrobeStep}
                 canContinue={canAdvanceToWardrobe}
+                hasMore={hasMoreProducts}
+                isLoadingMore={isLoadingMoreProducts}
+                loadMoreError={loadMoreError}
+                onLoadMore={handleLoadMoreProducts}
+                maybeLaterCount={maybeLaterProducts.length}
+                onRequeueMaybeLater={requeueMaybeLater}
+                notice={equipNotice}
               />
               {isLoading ? (
                 <div className="absolute inset-0 z-10 flex items-center justify-center rounded-3xl bg-white/60 backdrop-blur-sm dark:bg-slate-900/60">
@@ -958,10 +1787,78 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
           ) : (
             <section className="flex min-h-[calc(100vh-12rem)] max-h-[calc(100vh-12rem)] flex-col overflow-hidden rounded-3xl border border-dashed border-white/30 bg-white/5 pt-6 backdrop-blur-2xl transition-colors duration-300 dark:bg-slate-900/70">
               <header className="flex flex-wrap items-center justify-between gap-4 border-b border-white/30 px-6 pb-5">
-                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-                  Wardrobe
-                </h2>
+                <div className="min-w-0 space-y-1">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                    Wardrobe
+                  </h2>
+                  <p
+                    className={cn(
+                      'text-xs font-medium',
+                      budgetStatus.isOverBudget
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-muted-foreground',
+                    )}>
+                    {formatCurrency(budgetStatus.total, budgetStatus.currency)}
+                    {budgetStatus.budget && budgetStatus.remaining !== null
+                      ? budgetStatus.isOverBudget
+                        ? ` · ${formatCurrency(
+                            -budgetStatus.remaining,
+                            budgetStatus.currency,
+                          )} over your ${formatCurrency(
+                            budgetStatus.budget.amount,
+                            budgetStatus.currency,
+                          )} budget`
+                        : ` · ${formatCurrency(
+                            budgetStatus.remaining,
+                            budgetStatus.currency,
+                          )} left of ${formatCurrency(
+                            budgetStatus.budget.amount,
+                            budgetStatus.currency,
+                          )}`
+                      : null}
+                    {budgetStatus.uncounted
+                      ? ` · ${describeUncounted(budgetStatus.uncounted)}`
+                      : null}
+                  </p>
+                  {equipNotice ? (
+                    <p
+                      role="status"
+                      className="text-xs font-medium text-amber-700 dark:text-amber-300">
+                      {equipNotice}
+                    </p>
+                  ) : null}
+                  {outfitWarnings.length ? (
+                    <ul
+                      aria-label="Outfit warnings"
+                      className="space-y-0.5 text-xs">
+                      {outfitWarnings.map((warning) => (
+                        <li
+                          key={warning.ruleId}
+                          className={cn(
+                            'flex items-start gap-1.5',
+                            warning.severity === 'warning'
+                              ? 'text-amber-700 dark:text-amber-300'
+                              : 'text-muted-foreground',
+                          )}>
+                          <AlertTriangle className="mt-px h-3.5 w-3.5 flex-shrink-0" />
+                          <span>{warning.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </div>
                 <div className="flex gap-2">
+                  {onStartOver ? (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={onStartOver}
+                      disabled={isGeneratingOutfit || isAgentRunning}
+                      className="cursor-pointer">
+                      Start over
+                    </Button>
+                  ) : null}
                   <Button
                     type="button"
                     size="sm"
@@ -973,27 +1870,128 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                       isPortraitUploading ||
                       isGeneratingOutfit ||
                       isAgentRunning ||
-                      !portraitPreviewUrl ||
+                      !basePortraitUrl ||
                       !hasAnyEquipped
                     }
                     className="cursor-pointer">
-                    {isGeneratingOutfit ? 'Generating...' : 'Generate Outfit'}
+                    {isGeneratingOutfit
+                      ? tryOnProgress?.totalPasses
+                        ? `Pass ${tryOnProgress.pass} of ${tryOnProgress.totalPasses}...`
+                        : 'Generating...'
+                      : 'Generate Outfit'}
                   </Button>
                   <Button
                     type="button"
                     size="sm"
-                    onClick={() => {
-                      void handleRunAgent()
-                    }}
+                    onClick={handlePurchaseClick}
                     disabled={
                       isAgentRunning || isPortraitUploading || !hasAnyEquipped
                     }
                     className="cursor-pointer">
-                    {isAgentRunning ? 'Purchasing...' : 'Purchase'}
+                    {isAgentRunning
+                      ? 'Purchasing...'
+                      : loadouts.length > 1
+                        ? `Purchase ${activeLoadout.name}`
+                        : 'Purchase'}
                   </Button>
                 </div>
+                <div className="flex w-full flex-wrap items-center gap-2">
+                  <div
+                    role="tablist"
+                    aria-label="Outfits"
+                    className="flex flex-wrap gap-1.5">
+                    {loadouts.map((loadout) => {
+                      const isActive = loadout.id === activeLoadout.id
+                      return (
+                        <button
+                          key={loadout.id}
+                          type="button"
+                          role="tab"
+                          aria-selected={isActive}
+                          onClick={() => handleSelectLoadout(loadout.id)}
+                          className={cn(
+                            'cursor-pointer rounded-full border px-3 py-1 text-xs font-medium transition',
+                            isActive
+                              ? 'border-sky-500 bg-white text-sky-900 shadow dark:border-sky-400 dark:bg-slate-800 dark:text-sky-100'
+                              : 'border-white/40 bg-white/20 text-gray-700 hover:border-white/70 dark:border-white/10 dark:bg-white/5 dark:text-gray-200',
+                          )}>
+                          {loadout.name}
+                          <span className="ml-1.5 text-muted-foreground">
+                            {getEquippedItems(loadout.equipped).length}
+                          </span>
+                        </button>
+                      )
+                    })}
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={handleCreateLoadout}
+                    className="cursor-pointer">
+                    <Plus /> New outfit
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={handleRenameLoadout}
+                    className="cursor-pointer">
+                    Rename
+                  </Button>
+                  {loadouts.length > 1 ? (
+                    <>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={handleDeleteLoadout}
+                        className="cursor-pointer">
+                        Delete
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setIsComparingLoadouts(true)}
+                        className="cursor-pointer">
+                        Compare
+                      </Button>
+                    </>
+                  ) : null}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={handleAutoComplete}
+                    disabled={!savedProducts.length && !productDeck.length}
+                    className="cursor-pointer">
+                    <Sparkles /> Auto-complete
+                  </Button>
+                  <OutfitShareButton
+                    loadout={activeLoadout}
+                    disabled={!hasAnyEquipped}
+                  />
+                </div>
               </header>
 
+              {pendingSuggestions.length ? (
+                <OutfitSuggestions
+                  suggestions={pendingSuggestions}
+                  formatCurrency={formatCurrency}
+                  onAccept={(slotId) =>
+                    acceptSuggestions(
+                      pendingSuggestions.filter(
+                        (suggestion) => suggestion.slotId === slotId,
+                      ),
+                    )
+                  }
+                  onReject={rejectSuggestion}
+                  onAcceptAll={() => acceptSuggestions(pendingSuggestions)}
+                  onDismiss={() => setOutfitSuggestions([])}
+                />
+              ) : null}
+
               <div className="flex-1 min-h-0 overflow-y-auto overscroll-contain px-6 pb-6 pr-3 pt-6">
                 <div className="flex h-full items-start justify-center">
                   <div className="h-full w-full">
@@ -1070,8 +2068,21 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                                   unoptimized
                                 />
                                 {isGeneratingOutfit ? (
-                                  <div className="absolute inset-0 flex items-center justify-center bg-white/70">
-                                    <Spinner className="size-10 text-gray-500" />
+                                  <div
+                                    className={cn(
+                                      'absolute inset-0 flex',
+                                      tryOnProgress?.previewUrl
+                                        ? 'items-start justify-end p-3'
+                                        : 'items-center justify-center bg-white/70',
+                                    )}>
+                                    <Spinner
+                                      className={cn(
+                                        'text-gray-500',
+                                        tryOnProgress?.previewUrl
+                                          ? 'size-6'
+                                          : 'size-10',
+                                      )}
+                                    />
                                   </div>
                                 ) : null}
                               </Button>
@@ -1108,7 +2119,7 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                                   isPortraitUploading ||
                                   isGeneratingOutfit ||
                                   isAgentRunning ||
-                                  !portraitPreviewUrl ||
+                                  !basePortraitUrl ||
                                   !hasAnyEquipped
                                 }
                                 className="cursor-pointer text-xs">
@@ -1119,9 +2130,7 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                               <Button
                                 type="button"
                                 size="sm"
-                                onClick={() => {
-                                  void handleRunAgent()
-                                }}
+                                onClick={handlePurchaseClick}
                                 disabled={
                                   isAgentRunning ||
                                   isPortraitUploading ||
@@ -1131,6 +2140,55 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                                 {isAgentRunning ? 'Purchasing...' : 'Purchase'}
                               </Button>
                             </div>
+                            {tryOnProgress ? (
+                              <div className="w-full max-w-[280px] space-y-1.5">
+                                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                                  <span>
+                                    {describeTryOnProgress(tryOnProgress)}
+                                  </span>
+                                  <Button
+                                    type="button"
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => {
+                                      void handleCancelTryOn()
+                                    }}
+                                    className="h-6 cursor-pointer px-2 text-xs">
+                                    Cancel
+                                  </Button>
+                                </div>
+                                <div className="h-1 overflow-hidden rounded-full bg-black/10">
+                                  <div
+                                    className="h-full bg-sky-500 transition-[width]"
+                                    style={{
+                                      width: `${
+                                        tryOnProgress.totalPasses
+                                          ? ((tryOnProgress.pass -
+                                              (tryOnProgress.isApplying
+                                                ? 1
+                                                : 0)) /
+                                              tryOnProgress.totalPasses) *
+                                            100
+                                          : 0
+                                      }%`,
+                                    }}
+                                  />
+                                </div>
+                              </div>
+                            ) : null}
+                            {activeLoadout.renderUrl &&
+                            activeLoadout.renderUrl !== basePortraitUrl ? (
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="ghost"
+                                onClick={handleUseRenderAsBase}
+                                disabled={isGeneratingOutfit}
+                                title="Future try-ons will start from this render instead of your original portrait"
+                                className="cursor-pointer text-xs">
+                                Use this render as my new base
+                              </Button>
+                            ) : null}
                             {outfitError ? (
                               <p className="text-xs font-medium text-red-500 dark:text-red-400">
                                 {outfitError}
@@ -1147,12 +2205,54 @@ export const Wardrobe = forwardRef<WardrobeHandle, WardrobeProps>(
                         )}
                       </div>
                     </div>
+                    {renders.length ? (
+                      <TryOnGallery
+                        renders={renders}
+                        currentRenderUrl={activeLoadout.renderUrl}
+                        onCompare={setComparingRenderId}
+                        onReequip={handleReequipRender}
+                        onRemove={handleRemoveRender}
+                      />
+                    ) : null}
+                    <SavedItemsTray
+                      products={savedProducts}
+                      equippedIds={equippedIds}
+                      formatCurrency={formatCurrency}
+                      onOverrideSlot={handleOverrideSavedSlot}
+                      onMove={handleMoveSaved}
+                      onReturnToDeck={handleReturnSavedToDeck}
+                      onRemove={handleRemoveSaved}
+                    />
                   </div>
                 </div>
               </div>
             </section>
           )}
         </div>
+        {isComparingLoadouts && loadouts.length > 1 ? (
+          <LoadoutComparison
+            loadouts={loadouts}
+            activeLoadoutId={activeLoadout.id}
+            formatCurrency={formatCurrency}
+            onSelect={(loadoutId) => {
+              handleSelectLoadout(loadoutId)
+              setIsComparingLoadouts(false)
+            }}
+            onClose={() => setIsComparingLoadouts(false)}
+          />
+        ) : null}
+        {comparingRenderId ? (
+          <TryOnComparison
+            renders={renders}
+            basePortraitUrl={basePortraitUrl}
+            initialRenderId={comparingRenderId}
+            onReequip={(renderId) => {
+              handleReequipRender(renderId)
+              setComparingRenderId(null)
+            }}
+            onClose={() => setComparingRenderId(null)}
+          />
+        ) : null}
       </>
     )
   },
@@ -0,0 +1,148 @@
+import { formatCurrency } from '@/lib/currency'
+import type { ProductSummary, ShopperBudget } from '@/lib/types'
+
+export type BudgetStatus = {
+  total: number
+  currency: string
+  budget: ShopperBudget | null
+  remaining: number | null
+  isOverBudget: boolean
+  // Items priced in another currency, left out of the total.
+  uncounted: number
+}
+
+const CURRENCY_NAMES: Record<string, string> = {
+  dollar: 'USD',
+  dollars: 'USD',
+  euro: 'EUR',
+  euros: 'EUR',
+  pound: 'GBP',
+  pounds: 'GBP',
+  yen: 'JPY',
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+}
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+}
+
+// Offered on the Settings screen; any other valid code set by voice is kept.
+export const BUDGET_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY']
+
+// Accepts an ISO 4217 code or a common currency name; null when neither.
+export const normalizeCurrency = (value: string | undefined) => {
+  const text = value?.trim() ?? ''
+  const code = CURRENCY_NAMES[text.toLowerCase()] ?? text.toUpperCase()
+  if (!/^[A-Z]{3}$/.test(code)) return null
+  // Older runtimes can't list currencies; any well-formed code passes there.
+  if (typeof Intl.supportedValuesOf !== 'function') return code
+  return Intl.supportedValuesOf('currency').includes(code) ? code : null
+}
+
+export const productCurrency = (product: Pick<ProductSummary, 'currency'>) =>
+  product.currency?.toUpperCase() || 'USD'
+
+// There are no exchange rates to hand, so only prices in `currency` are added
+// up and the rest are counted as `uncounted`.
+export const sumPrices = (
+  products: Pick<ProductSummary, 'price' | 'currency'>[],
+  currency: string,
+) =>
+  products.reduce(
+    (sum, product) =>
+      productCurrency(product) === currency.toUpperCase()
+        ? { ...sum, total: sum.total + (Number(product.price) || 0) }
+        : { ...sum, uncounted: sum.uncounted + 1 },
+    { total: 0, uncounted: 0 },
+  )
+
+// Products are bought once however many slots they fill, so callers pass
+// each product a single time (see getEquippedItems).
+export const getBudgetStatus = (
+  products: Pick<ProductSummary, 'price' | 'currency'>[],
+  budget: ShopperBudget | null | undefined,
+): BudgetStatus => {
+  const currency =
+    budget?.currency || (products[0] ? productCurrency(products[0]) : 'USD')
+  const { total, uncounted } = sumPrices(products, currency)
+  const remaining = budget ? budget.amount - total : null
+
+  return {
+    total,
+    currency,
+    budget: budget ?? null,
+    remaining,
+    isOverBudget: remaining !== null && remaining < 0,
+    uncounted,
+  }
+}
+
+export const describeUncounted = (uncounted: number) =>
+  uncounted
+    ? `${uncounted} item${uncounted === 1 ? '' : 's'} in another currency ${
+        uncounted === 1 ? 'isn’t' : 'aren’t'
+      } counted.`
+    : null
+
+const describeSpend = ({
+  total,
+  currency,
+  budget,
+  remaining,
+}: BudgetStatus) => {
+  const spent = formatCurrency(total, currency)
+  if (!budget || remaining === null) {
+    return `The outfit comes to ${spent}. No budget is set.`
+  }
+  const limit = formatCurrency(budget.amount, currency)
+  if (remaining < 0) {
+    return `The outfit comes to ${spent}, ${formatCurrency(
+      -remaining,
+      currency,
+    )} over the ${limit} budget.`
+  }
+  return `The outfit comes to ${spent}, leaving ${formatCurrency(
+    remaining,
+    currency,
+  )} of the ${limit} budget.`
+}
+
+export const describeBudgetStatus = (status: BudgetStatus) =>
+  [describeSpend(status), describeUncounted(status.uncounted)]
+    .filter(Boolean)
+    .join(' ')
+
+// Takes a positive amount with optional thousands separators, a leading
+// currency symbol, a k/m multiplier and a trailing currency code or name:
+// "$1,200", "2k", "250 euros". The currency is null when none was given.
+// Anything else, including negative numbers, is rejected rather than guessed
+// at.
+export const parseBudget = (value: number | string | undefined) => {
+  const match = String(value ?? '')
+    .trim()
+    .match(
+      /^([$€£¥])?\s*(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?\s*([km])?(?:\s*([a-z]{3,}))?$/i,
+    )
+  if (!match) return null
+  const [, symbol, whole, fraction, multiplier, currencyWord] = match
+
+  const currency = currencyWord
+    ? normalizeCurrency(currencyWord)
+    : symbol
+      ? CURRENCY_SYMBOLS[symbol]
+      : null
+  if (currencyWord && !currency) return null
+
+  const amount =
+    Number(`${whole.replace(/,/g, '')}${fraction ?? ''}`) *
+    (multiplier ? AMOUNT_MULTIPLIERS[multiplier.toLowerCase()] : 1)
+  if (!Number.isFinite(amount) || amount <= 0) return null
+  return { amount: Math.round(amount * 100) / 100, currency }
+}
@@ -0,0 +1,23 @@
+type CursorPayload = {
+  offset: number
+}
+
+// Cursors are opaque to clients; today they only carry the offset of the
+// next page, but callers must not rely on that.
+export const encodeCursor = (offset: number) =>
+  Buffer.from(JSON.stringify({ offset } satisfies CursorPayload)).toString(
+    'base64url',
+  )
+
+export const decodeCursor = (cursor: string): CursorPayload | null => {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as Partial<CursorPayload>
+    const offset = Number(parsed?.offset)
+    if (!Number.isInteger(offset) || offset < 0) return null
+    return { offset }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,134 @@
+import { z } from 'zod'
+
+import type { SearchFilters } from '@/lib/types'
+
+const merchantListSchema = z
+  .array(z.string().trim().min(1).max(80))
+  .max(20)
+  .optional()
+
+export const searchFiltersSchema = z
+  .object({
+    minPrice: z.number().nonnegative().optional(),
+    maxPrice: z.number().positive().optional(),
+    currency: z
+      .string()
+      .trim()
+      .regex(/^[a-zA-Z]{3}$/, 'Currency must be a three-letter ISO code.')
+      .transform((value) => value.toUpperCase())
+      .optional(),
+    merchants: merchantListSchema,
+    excludeMerchants: merchantListSchema,
+    color: z.string().trim().min(1).max(40).optional(),
+    size: z.string().trim().min(1).max(20).optional(),
+    category: z.string().trim().min(1).max(60).optional(),
+  })
+  .strict()
+  .refine(
+    ({ minPrice, maxPrice }) =>
+      minPrice === undefined || maxPrice === undefined || minPrice <= maxPrice,
+    { message: 'minPrice cannot be greater than maxPrice.' },
+  )
+
+export type SearchFilterKey = keyof SearchFilters
+
+// The shape filters are evaluated against. Catalogs that know a product's
+// sizes or colors pass them explicitly; otherwise the text is searched.
+export type FilterableProduct = {
+  name: string
+  description?: string | null
+  price: number
+  currency?: string | null
+  source?: string | null
+  sizes?: string[]
+  colors?: string[]
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const textMentions = (product: FilterableProduct, term: string) =>
+  new RegExp(`\\b${escapeRegExp(normalize(term))}s?\\b`, 'i').test(
+    `${product.name} ${product.description ?? ''}`,
+  )
+
+const merchantMatches = (source: string | null | undefined, list: string[]) => {
+  const merchant = normalize(source ?? '')
+  return list.some((entry) => merchant.includes(normalize(entry)))
+}
+
+const filterMatchers: Record<
+  SearchFilterKey,
+  (product: FilterableProduct, filters: SearchFilters) => boolean
+> = {
+  minPrice: (product, { minPrice }) =>
+    minPrice === undefined || product.price >= minPrice,
+  maxPrice: (product, { maxPrice }) =>
+    maxPrice === undefined || product.price <= maxPrice,
+  currency: (product, { currency }) =>
+    !currency || normalize(product.currency || 'USD') === normalize(currency),
+  merchants: (product, { merchants }) =>
+    !merchants?.length || merchantMatches(product.source, merchants),
+  excludeMerchants: (product, { excludeMerchants }) =>
+    !excludeMerchants?.length ||
+    !merchantMatches(product.source, excludeMerchants),
+  color: (product, { color }) => {
+    if (!color) return true
+    if (product.colors?.some((entry) => normalize(entry) === normalize(color)))
+      return true
+    return textMentions(product, color)
+  },
+  // Most listings never spell out their sizes, so only reject products that
+  // advertise a size list without the requested size.
+  size: (product, { size }) => {
+    if (!size) return true
+    if (!product.sizes?.length) return true
+    return product.sizes.some((entry) => normalize(entry) === normalize(size))
+  },
+  category: (product, { category }) =>
+    !category || textMentions(product, category),
+}
+
+export const matchesSearchFilters = (
+  product: FilterableProduct,
+  filters: SearchFilters,
+  skip: SearchFilterKey[] = [],
+) =>
+  (Object.keys(filterMatchers) as SearchFilterKey[]).every(
+    (key) => skip.includes(key) || filterMatchers[key](product, filters),
+  )
+
+export const hasSearchFilters = (filters?: SearchFilters | null) =>
+  Boolean(
+    filters &&
+    Object.values(filters).some((value) =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined,
+    ),
+  )
+
+export const describeSearchFilters = (filters?: SearchFilters | null) => {
+  if (!filters) return []
+
+  const currency = filters.currency ?? 'USD'
+  const formatPrice = (value: number) =>
+    currency === 'USD' ? `$${value}` : `${currency} ${value}`
+
+  return [
+    filters.minPrice !== undefined && filters.maxPrice !== undefined
+      ? `${formatPrice(filters.minPrice)}–${formatPrice(filters.maxPrice)}`
+      : filters.maxPrice !== undefined
+        ? `under ${formatPrice(filters.maxPrice)}`
+        : filters.minPrice !== undefined
+          ? `over ${formatPrice(filters.minPrice)}`
+          : null,
+    filters.merchants?.length ? `from ${filters.merchants.join(', ')}` : null,
+    filters.excludeMerchants?.length
+      ? `not ${filters.excludeMerchants.join(', ')}`
+      : null,
+    filters.color ?? null,
+    filters.size ? `size ${filters.size}` : null,
+    filters.category ?? null,
+  ].filter((label): label is string => Boolean(label))
+}
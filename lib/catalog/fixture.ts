@@ -0,0 +1,131 @@
+import type {
+  MerchantOffer,
+  ProductDetails,
+  ProductSummary,
+  ProductVariant,
+} from '@/lib/types'
+
+import { matchesSearchFilters, type FilterableProduct } from './filters'
+import fixtureProducts from './fixtures/products.json'
+import type { CatalogProvider } from './types'
+
+type FixtureProduct = {
+  id: string
+  name: string
+  description: string
+  price: number
+  currency: string
+  imageUrl: string
+  productLink: string
+  source: string
+  tags: string[]
+  images: string[]
+  variants: ProductVariant[]
+  offers: MerchantOffer[]
+  stock: number
+}
+
+const products = fixtureProducts as FixtureProduct[]
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1)
+
+const scoreProduct = (product: FixtureProduct, tokens: string[]) => {
+  const nameTokens = new Set(tokenize(product.name))
+  const bodyTokens = new Set(
+    tokenize([product.description, product.source, ...product.tags].join(' ')),
+  )
+
+  return tokens.reduce((score, token) => {
+    if (nameTokens.has(token)) return score + 2
+    if (bodyTokens.has(token)) return score + 1
+    return score
+  }, 0)
+}
+
+const toFilterableProduct = (product: FixtureProduct): FilterableProduct => ({
+  ...product,
+  sizes: product.variants
+    .map((variant) => variant.options.size)
+    .filter((size): size is string => Boolean(size)),
+  colors: product.tags,
+})
+
+const toProductSummary = (product: FixtureProduct) =>
+  ({
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    price: product.price,
+    currency: product.currency,
+    imageUrl: product.imageUrl,
+    productLink: product.productLink,
+    source: product.source,
+  }) as ProductSummary
+
+const toProductDetails = (product: FixtureProduct): ProductDetails => ({
+  id: product.id,
+  name: product.name,
+  description: product.description,
+  price: product.price,
+  currency: product.currency,
+  source: product.source,
+  imageUrl: product.imageUrl,
+  images: product.images,
+  variants: product.variants,
+  offers: product.offers,
+})
+
+const findProduct = (productId: string) =>
+  products.find((product) => product.id === productId) ?? null
+
+export const createFixtureCatalogProvider = (): CatalogProvider => ({
+  name: 'fixture',
+  supportedFilters: [
+    'minPrice',
+    'maxPrice',
+    'currency',
+    'merchants',
+    'excludeMerchants',
+    'color',
+    'size',
+    'category',
+  ],
+  search: async ({ query, limit, offset, filters }) => {
+    const tokens = tokenize(query)
+    const matches = products
+      .filter(
+        (product) =>
+          !filters ||
+          matchesSearchFilters(toFilterableProduct(product), filters),
+      )
+      .map((product) => ({ product, score: scoreProduct(product, tokens) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+
+    return {
+      products: matches
+        .slice(offset, offset + limit)
+        .map(({ product }) => toProductSummary(product)),
+      hasMore: offset + limit < matches.length,
+    }
+  },
+  getDetails: async (productId) => {
+    const product = findProduct(productId)
+    return product ? toProductDetails(product) : null
+  },
+  getAvailability: async (productId) => {
+    const product = findProduct(productId)
+    if (!product) return null
+
+    return {
+      productId,
+      inStock: product.stock > 0,
+      quantity: product.stock,
+      checkedAt: new Date().toISOString(),
+    }
+  },
+})
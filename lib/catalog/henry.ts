@@ -0,0 +1,173 @@
+import HenrySDK from '@henrylabs/sdk'
+
+import type {
+  MerchantOffer,
+  ProductDetails,
+  ProductSummary,
+  ProductVariant,
+} from '@/lib/types'
+
+import type { CatalogProvider } from './types'
+
+type LooseRecord = Record<string, unknown>
+
+const MAX_SEARCH_WINDOW = 60
+
+const asRecord = (value: unknown): LooseRecord | null =>
+  value && typeof value === 'object' ? (value as LooseRecord) : null
+
+const readString = (record: LooseRecord | null, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = record?.[key]
+    if (typeof value === 'string' && value.trim()) return value
+  }
+  return null
+}
+
+const readNumber = (record: LooseRecord | null, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = Number(record?.[key])
+    if (record?.[key] != null && Number.isFinite(value)) return value
+  }
+  return null
+}
+
+const readArray = (record: LooseRecord | null, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = record?.[key]
+    if (Array.isArray(value)) return value
+  }
+  return []
+}
+
+// Henry's detail payload differs between merchants, so map it defensively
+// into the normalized shape the UI renders.
+const toProductDetails = (
+  productId: string,
+  raw: unknown,
+): ProductDetails | null => {
+  const record = asRecord(Array.isArray(raw) ? raw[0] : raw)
+  if (!record) return null
+
+  const currency = readString(record, 'currency') ?? 'USD'
+  const imageUrl = readString(record, 'imageUrl', 'image', 'thumbnail')
+  const images = readArray(record, 'images', 'imageUrls')
+    .map((image) =>
+      typeof image === 'string' ? image : readString(asRecord(image), 'url'),
+    )
+    .filter((image): image is string => Boolean(image))
+
+  const variants = readArray(record, 'variants').map<ProductVariant>(
+    (entry, index) => {
+      const variant = asRecord(entry)
+      const options = asRecord(variant?.options) ?? {}
+      return {
+        id: readString(variant, 'id', 'sku') ?? `${productId}-${index}`,
+        name:
+          readString(variant, 'name', 'title') ??
+          Object.values(options).join(' / '),
+        options: Object.fromEntries(
+          Object.entries(options).map(([key, value]) => [key, String(value)]),
+        ),
+        price: readNumber(variant, 'price'),
+        imageUrl: readString(variant, 'imageUrl', 'image'),
+        inStock: typeof variant?.inStock === 'boolean' ? variant.inStock : null,
+      }
+    },
+  )
+
+  const offers = readArray(record, 'offers', 'sellers', 'merchants')
+    .map((entry): MerchantOffer | null => {
+      const offer = asRecord(entry)
+      const price = readNumber(offer, 'price')
+      if (price == null) return null
+      return {
+        merchant:
+          readString(offer, 'merchant', 'name', 'source') ?? 'Unknown merchant',
+        price,
+        currency: readString(offer, 'currency') ?? currency,
+        url: readString(offer, 'url', 'link', 'productLink'),
+        inStock: typeof offer?.inStock === 'boolean' ? offer.inStock : null,
+      }
+    })
+    .filter((offer): offer is MerchantOffer => offer !== null)
+
+  return {
+    id: readString(record, 'id', 'productId') ?? productId,
+    name: readString(record, 'name', 'title') ?? 'Untitled product',
+    description: readString(record, 'description'),
+    price: readNumber(record, 'price') ?? offers[0]?.price ?? 0,
+    currency,
+    source:
+      readString(record, 'source', 'merchant') ?? offers[0]?.merchant ?? '',
+    imageUrl: imageUrl ?? images[0] ?? null,
+    images:
+      imageUrl && !images.includes(imageUrl) ? [imageUrl, ...images] : images,
+    variants,
+    offers,
+  }
+}
+
+export const createHenryCatalogProvider = (): CatalogProvider => {
+  if (!process.env.HENRY_API_KEY) {
+    throw new Error(
+      'HENRY_API_KEY must be configured to use the Henry catalog.',
+    )
+  }
+
+  const client = new HenrySDK({
+    apiKey: process.env.HENRY_API_KEY,
+    environment: 'sandbox',
+  })
+
+  const getDetails = async (productId: string) => {
+    const detail = await client.products.retrieveDetails({
+      productId,
+    })
+
+    return toProductDetails(productId, detail.data.productResults)
+  }
+
+  return {
+    name: 'henry',
+    supportedFilters: [],
+    // The Henry search endpoint has no paging parameters, so each page asks
+    // for everything up to the end of the requested window and slices it.
+    search: async ({ query, limit, offset }) => {
+      const windowSize = Math.min(offset + limit, MAX_SEARCH_WINDOW)
+      if (offset >= windowSize) {
+        return { products: [], hasMore: false }
+      }
+
+      const search = await client.products.search({
+        query,
+        limit: windowSize,
+      })
+      const results = search.data as ProductSummary[]
+
+      return {
+        products: results.slice(offset, windowSize),
+        hasMore: results.length >= windowSize && windowSize < MAX_SEARCH_WINDOW,
+      }
+    },
+    getDetails,
+    // Henry has no dedicated stock endpoint, so availability is derived from
+    // the merchant offers on the detail payload.
+    getAvailability: async (productId) => {
+      const details = await getDetails(productId)
+      if (!details) return null
+
+      const stockSignals = [
+        ...details.offers.map((offer) => offer.inStock),
+        ...details.variants.map((variant) => variant.inStock),
+      ].filter((signal): signal is boolean => typeof signal === 'boolean')
+
+      return {
+        productId,
+        inStock: stockSignals.length ? stockSignals.some(Boolean) : true,
+        quantity: null,
+        checkedAt: new Date().toISOString(),
+      }
+    },
+  }
+}
@@ -0,0 +1,35 @@
+import { createFixtureCatalogProvider } from './fixture'
+import { createHenryCatalogProvider } from './henry'
+import type { CatalogProvider, CatalogProviderName } from './types'
+
+export type * from './types'
+
+const CATALOG_PROVIDER_NAMES: CatalogProviderName[] = ['henry', 'fixture']
+
+// `CATALOG_PROVIDER` wins when set; otherwise fall back to the offline
+// fixtures whenever no Henry key is configured so the app still boots.
+export const resolveCatalogProviderName = (): CatalogProviderName => {
+  const configured = process.env.CATALOG_PROVIDER?.trim().toLowerCase()
+  if (configured) {
+    if (!CATALOG_PROVIDER_NAMES.includes(configured as CatalogProviderName)) {
+      throw new Error(
+        `Unknown CATALOG_PROVIDER "${configured}". Use one of: ${CATALOG_PROVIDER_NAMES.join(', ')}.`,
+      )
+    }
+    return configured as CatalogProviderName
+  }
+  return process.env.HENRY_API_KEY ? 'henry' : 'fixture'
+}
+
+let catalogProvider: CatalogProvider | null = null
+
+export const getCatalogProvider = (): CatalogProvider => {
+  if (catalogProvider) return catalogProvider
+
+  catalogProvider =
+    resolveCatalogProviderName() === 'henry'
+      ? createHenryCatalogProvider()
+      : createFixtureCatalogProvider()
+
+  return catalogProvider
+}
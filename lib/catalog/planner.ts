@@ -0,0 +1,142 @@
+import type {
+  OutfitPlan,
+  OutfitPlanSummary,
+  ProductSearchPage,
+  ProductSummary,
+  SlotId,
+} from '@/lib/types'
+
+type OutfitTemplate = {
+  id: string
+  triggers: RegExp
+  slots: Partial<Record<SlotId, string>>
+}
+
+// Only explicit whole-outfit phrasing counts: bare "look", "fits" or "kit"
+// show up in ordinary product queries ("retro looking sandals", "wax kit").
+const OUTFIT_INTENT =
+  /\b(outfits?|ensembles?|get-?ups?|head[- ]to[- ]toe|top[- ]to[- ]bottom|everything i need|(full|complete|whole|entire|total) (looks?|fits?|kits?|sets?))\b/i
+
+// Words that describe the scope of the request rather than what to wear.
+const SCOPE_WORDS =
+  /\b(a|an|the|me|my|for|complete|full|whole|entire|total|outfits?|looks?|fits?|kit|get-?up|ensemble|head[- ]to[- ]toe|top[- ]to[- ]bottom|everything|i|need|set|put together|build|find|get|some|please)\b/gi
+
+// Templates are checked in order; the last one is the catch-all.
+const OUTFIT_TEMPLATES: OutfitTemplate[] = [
+  {
+    id: 'surf',
+    triggers: /\b(surf|surfing|dawn patrol|paddle|lineup|waves?)\b/i,
+    slots: {
+      head: 'surf cap',
+      chest: 'rash guard',
+      wetsuit: 'wetsuit',
+      legs: 'boardshorts',
+      feet: 'sandals',
+      hand: 'surfboard',
+    },
+  },
+  {
+    id: 'beach',
+    triggers: /\b(beach|pool|tropical|vacation|island|sand|bonfire)\b/i,
+    slots: {
+      head: 'sun hat',
+      eyewear: 'sunglasses',
+      chest: 'tee',
+      legs: 'shorts',
+      feet: 'sandals',
+      bag: 'beach bag',
+      neck: 'necklace',
+    },
+  },
+  {
+    id: 'hike',
+    triggers: /\b(hike|hiking|trail|camp|camping|mountain|outdoor)\b/i,
+    slots: {
+      head: 'cap',
+      chest: 'fleece',
+      outerwear: 'rain jacket',
+      legs: 'hiking pants',
+      feet: 'hiking boots',
+      bag: 'backpack',
+    },
+  },
+  {
+    id: 'general',
+    triggers: /.*/,
+    slots: {
+      head: 'hat',
+      chest: 'shirt',
+      legs: 'pants',
+      feet: 'shoes',
+      bag: 'bag',
+    },
+  },
+]
+
+export const isOutfitRequest = (query: string) => OUTFIT_INTENT.test(query)
+
+const extractContext = (query: string) =>
+  query.replace(SCOPE_WORDS, ' ').replace(/\s+/g, ' ').trim()
+
+const findOutfitTemplate = (query: string) =>
+  OUTFIT_TEMPLATES.find(({ triggers }) => triggers.test(query)) ??
+  OUTFIT_TEMPLATES[OUTFIT_TEMPLATES.length - 1]
+
+// The activity a query describes, e.g. "surf" or "hike"; "general" otherwise.
+export const detectOutfitActivity = (query: string) =>
+  findOutfitTemplate(query).id
+
+export const planOutfitSearch = (query: string): OutfitPlan => {
+  const template = findOutfitTemplate(query)
+  const context = extractContext(query)
+
+  return {
+    template: template.id,
+    context,
+    slots: (Object.entries(template.slots) as Array<[SlotId, string]>).map(
+      ([slotId, item]) => ({
+        slotId,
+        query: [context, item].filter(Boolean).join(' '),
+      }),
+    ),
+  }
+}
+
+// Runs every slot query from the plan in parallel and tags each product
+// with the slot it was fetched for. Products that turn up for more than one
+// slot keep the first slot in plan order.
+export const runOutfitPlan = async (
+  plan: OutfitPlan,
+  search: (params: {
+    slotId: SlotId
+    query: string
+  }) => Promise<ProductSearchPage>,
+): Promise<{
+  products: ProductSummary[]
+  slots: OutfitPlanSummary['slots']
+}> => {
+  const pages = await Promise.all(
+    plan.slots.map((slot) =>
+      search(slot).catch((error) => {
+        console.warn(`Outfit plan search failed for ${slot.slotId}:`, error)
+        return { products: [], nextCursor: null }
+      }),
+    ),
+  )
+
+  const seen = new Set<string>()
+  const products: ProductSummary[] = []
+  const slots = plan.slots.map((slot, index) => {
+    const tagged = pages[index].products
+      .filter((product) => {
+        if (seen.has(product.id)) return false
+        seen.add(product.id)
+        return true
+      })
+      .map((product) => ({ ...product, plannedSlot: slot.slotId }))
+    products.push(...tagged)
+    return { ...slot, count: tagged.length }
+  })
+
+  return { products, slots }
+}
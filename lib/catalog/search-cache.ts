@@ -0,0 +1,55 @@
+import { resolveCatalogProviderName } from '@/lib/catalog'
+import { createTtlCache } from '@/lib/ttl-cache'
+import type { ProductSearchPage, SearchFilters } from '@/lib/types'
+
+const SEARCH_CACHE_TTL_MS = 5 * 60 * 1000
+const SEARCH_CACHE_MAX_ENTRIES = 200
+
+export const searchCache = createTtlCache<ProductSearchPage>({
+  ttlMs: SEARCH_CACHE_TTL_MS,
+  maxEntries: SEARCH_CACHE_MAX_ENTRIES,
+})
+
+const normalizeText = (value: string) =>
+  value.trim().toLowerCase().replace(/\s+/g, ' ')
+
+const normalizeFilters = (filters?: SearchFilters | null) => {
+  if (!filters) return {}
+
+  return Object.fromEntries(
+    Object.entries(filters)
+      .filter(([, value]) =>
+        Array.isArray(value) ? value.length > 0 : value !== undefined,
+      )
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => [
+        key,
+        Array.isArray(value)
+          ? value.map(normalizeText).sort()
+          : typeof value === 'string'
+            ? normalizeText(value)
+            : value,
+      ]),
+  )
+}
+
+// "Red  Rash Guard" and "red rash guard" with the same filters in any key
+// order resolve to the same entry.
+export const buildSearchCacheKey = ({
+  query,
+  limit,
+  cursor,
+  filters,
+}: {
+  query: string
+  limit: number
+  cursor?: string | null
+  filters?: SearchFilters | null
+}) =>
+  JSON.stringify([
+    resolveCatalogProviderName(),
+    normalizeText(query),
+    limit,
+    cursor ?? null,
+    normalizeFilters(filters),
+  ])
@@ -0,0 +1,31 @@
+import type {
+  ProductAvailability,
+  ProductDetails,
+  ProductSummary,
+  SearchFilters,
+} from '@/lib/types'
+
+import type { SearchFilterKey } from './filters'
+
+export type CatalogSearchParams = {
+  query: string
+  limit: number
+  offset: number
+  filters?: SearchFilters
+}
+
+export type CatalogSearchResult = {
+  products: ProductSummary[]
+  hasMore: boolean
+}
+
+export type CatalogProvider = {
+  name: CatalogProviderName
+  // Filters the provider applies itself; the rest are applied after fetching.
+  supportedFilters: SearchFilterKey[]
+  search: (params: CatalogSearchParams) => Promise<CatalogSearchResult>
+  getDetails: (productId: string) => Promise<ProductDetails | null>
+  getAvailability: (productId: string) => Promise<ProductAvailability | null>
+}
+
+export type CatalogProviderName = 'henry' | 'fixture'
@@ -0,0 +1,13 @@
+// Whole units read better in the UI and over voice. Unknown currency codes
+// fall back to the code itself rather than a misleading "$".
+export const formatCurrency = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency || 'USD',
+      maximumFractionDigits: 0,
+    }).format(amount)
+  } catch {
+    return `${currency || 'USD'} ${amount.toFixed(2)}`
+  }
+}
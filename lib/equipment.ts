@@ -0,0 +1,72 @@
+import { getCoveredSlots, getSlotLabel, SLOT_IDS } from '@/lib/slots'
+import type { EquippedState, ProductSummary, SlotId } from '@/lib/types'
+
+export type EquippedItem = { slotId: SlotId; product: ProductSummary }
+
+export const getOccupiedSlots = (slotId: SlotId): SlotId[] => [
+  slotId,
+  ...getCoveredSlots(slotId),
+]
+
+// The slot holding a multi-slot garment that spills over onto `slotId`.
+export const getCoveringSlot = (
+  equipped: EquippedState,
+  slotId: SlotId,
+): SlotId | null =>
+  SLOT_IDS.find(
+    (other) =>
+      other !== slotId &&
+      Boolean(equipped[other]) &&
+      getCoveredSlots(other).includes(slotId),
+  ) ?? null
+
+// Every equipped product exactly once, keyed by the slot it was equipped to.
+export const getEquippedItems = (equipped: EquippedState): EquippedItem[] => {
+  const seen = new Set<string>()
+  return SLOT_IDS.flatMap((slotId) => {
+    const product = equipped[slotId]
+    if (!product || seen.has(product.id)) return []
+    seen.add(product.id)
+    return [{ slotId, product }]
+  })
+}
+
+// Equips `product` to `slotId`, removing anything that overlaps the slots it
+// occupies. A product already equipped elsewhere moves rather than doubles up.
+export const equipProduct = (
+  equipped: EquippedState,
+  slotId: SlotId,
+  product: ProductSummary,
+): { equipped: EquippedState; displaced: EquippedItem[] } => {
+  const occupied = getOccupiedSlots(slotId)
+  const next: EquippedState = {}
+  const displaced: EquippedItem[] = []
+
+  SLOT_IDS.forEach((other) => {
+    const current = equipped[other]
+    if (!current) return
+    if (current.id === product.id) return
+    if (getOccupiedSlots(other).some((slot) => occupied.includes(slot))) {
+      displaced.push({ slotId: other, product: current })
+      return
+    }
+    next[other] = current
+  })
+
+  next[slotId] = product
+  return { equipped: next, displaced }
+}
+
+export const describeDisplaced = (
+  product: ProductSummary,
+  displaced: EquippedItem[],
+) => {
+  if (!displaced.length) return null
+  const removed = displaced
+    .map(
+      ({ slotId, product: item }) =>
+        `${item.name} (${getSlotLabel(slotId).toLowerCase()})`,
+    )
+    .join(' and ')
+  return `${product.name} replaced ${removed}.`
+}
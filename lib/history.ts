@@ -0,0 +1,51 @@
+export type HistoryEntry<T> = {
+  label: string
+  snapshot: T
+}
+
+export type HistoryState<T> = {
+  past: HistoryEntry<T>[]
+  future: HistoryEntry<T>[]
+}
+
+export const MAX_HISTORY_ENTRIES = 50
+
+export const createHistory = <T>(): HistoryState<T> => ({
+  past: [],
+  future: [],
+})
+
+// Records the state as it was *before* an action. A new action clears redo.
+export const recordHistory = <T>(
+  history: HistoryState<T>,
+  label: string,
+  snapshot: T,
+): HistoryState<T> => ({
+  past: [...history.past, { label, snapshot }].slice(-MAX_HISTORY_ENTRIES),
+  future: [],
+})
+
+// Returns the entry to restore, with `current` parked on the other stack.
+export const undoHistory = <T>(history: HistoryState<T>, current: T) => {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return null
+  return {
+    entry,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, snapshot: current }],
+    },
+  }
+}
+
+export const redoHistory = <T>(history: HistoryState<T>, current: T) => {
+  const entry = history.future[history.future.length - 1]
+  if (!entry) return null
+  return {
+    entry,
+    history: {
+      past: [...history.past, { label: entry.label, snapshot: current }],
+      future: history.future.slice(0, -1),
+    },
+  }
+}
@@ -0,0 +1,146 @@
+import { GoogleGenAI } from '@google/genai'
+
+import { getCoveredSlots, getSlotDisplayLabel } from '@/lib/slots'
+
+import type { EditableImage, GarmentImage, ImageEditProvider } from './types'
+
+const baseGeminiConfig = {
+  temperature: 0,
+  responseModalities: ['IMAGE', 'TEXT'],
+  imageConfig: {
+    imageSize: '1K',
+  },
+}
+
+const geminiModel = 'gemini-2.5-flash-image'
+
+const toInlinePart = ({ buffer, mimeType }: EditableImage) => ({
+  inlineData: {
+    mimeType,
+    data: buffer.toString('base64'),
+  },
+})
+
+const buildComposePrompt = (garments: GarmentImage[]) => {
+  const garmentSummary = garments
+    .map(({ slotId }, index) => {
+      const label = getSlotDisplayLabel(slotId)
+      const covered = getCoveredSlots(slotId).map(getSlotDisplayLabel)
+      return `${index + 1}. ${label} overlay (slot: ${slotId}${
+        covered.length
+          ? `; replaces the ${covered.join(' and ').toLowerCase()}`
+          : ''
+      })`
+    })
+    .join('\n')
+
+  return [
+    'You are a virtual wardrobe stylist for apparel ecommerce.',
+    'Keep the base portrait exactly the same person, including face, body, pose, lighting, framing, and background. Do not regenerate or replace the subject.',
+    'Maintain the full-body framing from head through feet so footwear remains visible; stay inside the original 2:3 portrait bounds with approximately five percent headroom and footroom.',
+    garments.length > 1
+      ? 'Apply all garments in this pass simultaneously without changing the person.'
+      : 'Apply the garment listed below without changing the person.',
+    'Blend the garments naturally on top of the existing portrait and maintain realistic proportions.',
+    'Return only the updated portrait image (no standalone garment cutouts).',
+    garmentSummary ? `Garments to apply:\n${garmentSummary}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+export const createGeminiImageEditProvider = (): ImageEditProvider => {
+  const apiKey = process.env.GEMINI_API_KEY
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY must be configured to use this feature.')
+  }
+  const client = new GoogleGenAI({ apiKey })
+
+  return {
+    name: 'gemini',
+    defaultModelVersion: geminiModel,
+    maxGarmentsPerPass: 2,
+    removeBackground: async (image) => {
+      const response = await client.models.generateContentStream({
+        model: geminiModel,
+        config: baseGeminiConfig,
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                text: [
+                  'Isolate the individual from the supplied portrait without altering their identity, pose, or lighting.',
+                  'Extend the composition so the subject appears as a full-body portrait inside a 2:3 frame with roughly five percent headroom and footroom, keeping proportions natural.',
+                  'Scale and center the subject consistently, ensuring the head nears the top margin without clipping and feet stay inside the frame.',
+                  'Ensure both hands are clearly visible and unobstructed (not hidden in pockets, behind the body, or outside the frame).',
+                  'Render the background as pure white (#FFFFFF) with no gradients, shadows, or objects.',
+                ].join(' '),
+              },
+              toInlinePart(image),
+            ],
+          },
+        ],
+      })
+
+      let chunkCount = 0
+      for await (const chunk of response) {
+        chunkCount++
+        const parts = chunk.candidates?.[0]?.content?.parts ?? []
+        for (const part of parts) {
+          if (part.inlineData?.data) {
+            return {
+              buffer: Buffer.from(part.inlineData.data, 'base64'),
+              mimeType: part.inlineData.mimeType || 'image/png',
+            }
+          }
+        }
+      }
+
+      throw new Error(
+        `No image data found in Google GenAI response after processing ${chunkCount} chunks.`,
+      )
+    },
+    composeGarments: async ({
+      portrait,
+      garments,
+      modelVersion,
+      seed,
+      signal,
+    }) => {
+      const response = await client.models.generateContentStream({
+        model: modelVersion ?? geminiModel,
+        config: {
+          ...baseGeminiConfig,
+          responseModalities: ['IMAGE'],
+          seed: seed ?? undefined,
+          abortSignal: signal,
+        },
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: buildComposePrompt(garments) },
+              toInlinePart(portrait),
+              ...garments.map(toInlinePart),
+            ],
+          },
+        ],
+      })
+
+      for await (const chunk of response) {
+        const parts = chunk.candidates?.[0]?.content?.parts ?? []
+        for (const part of parts) {
+          if (part.inlineData?.data) {
+            return {
+              buffer: Buffer.from(part.inlineData.data, 'base64'),
+              mimeType: part.inlineData.mimeType || portrait.mimeType,
+            }
+          }
+        }
+      }
+
+      throw new Error('Gemini did not return an updated portrait.')
+    },
+  }
+}
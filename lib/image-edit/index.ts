@@ -0,0 +1,37 @@
+import { createGeminiImageEditProvider } from './gemini'
+import { createLocalImageEditProvider } from './local'
+import type { ImageEditProvider, ImageEditProviderName } from './types'
+
+export type * from './types'
+
+const IMAGE_EDIT_PROVIDER_NAMES: ImageEditProviderName[] = ['gemini', 'local']
+
+// `IMAGE_EDIT_PROVIDER` wins when set; otherwise use the local stub whenever
+// no Gemini key is configured so try-ons still render offline.
+export const resolveImageEditProviderName = (): ImageEditProviderName => {
+  const configured = process.env.IMAGE_EDIT_PROVIDER?.trim().toLowerCase()
+  if (configured) {
+    if (
+      !IMAGE_EDIT_PROVIDER_NAMES.includes(configured as ImageEditProviderName)
+    ) {
+      throw new Error(
+        `Unknown IMAGE_EDIT_PROVIDER "${configured}". Use one of: ${IMAGE_EDIT_PROVIDER_NAMES.join(', ')}.`,
+      )
+    }
+    return configured as ImageEditProviderName
+  }
+  return process.env.GEMINI_API_KEY ? 'gemini' : 'local'
+}
+
+let imageEditProvider: ImageEditProvider | null = null
+
+export const getImageEditProvider = (): ImageEditProvider => {
+  if (imageEditProvider) return imageEditProvider
+
+  imageEditProvider =
+    resolveImageEditProviderName() === 'gemini'
+      ? createGeminiImageEditProvider()
+      : createLocalImageEditProvider()
+
+  return imageEditProvider
+}
@@ -0,0 +1,115 @@
+import { randomInt, randomUUID } from 'node:crypto'
+
+import { getImageEditProvider } from '@/lib/image-edit'
+import { createTtlCache } from '@/lib/ttl-cache'
+import type { TryOnJobEvent } from '@/lib/types'
+
+import { renderTryOn, toDataUrl, type TryOnRequest } from './try-on'
+
+type TryOnJob = {
+  events: TryOnJobEvent[]
+  listeners: Set<(event: TryOnJobEvent) => void>
+  controller: AbortController
+}
+
+const TRY_ON_JOB_TTL_MS = 15 * 60 * 1000
+const TRY_ON_JOB_MAX_ENTRIES = 50
+
+const tryOnJobs = createTtlCache<TryOnJob>({
+  ttlMs: TRY_ON_JOB_TTL_MS,
+  maxEntries: TRY_ON_JOB_MAX_ENTRIES,
+})
+
+export const isFinalTryOnJobEvent = ({ type }: TryOnJobEvent) =>
+  type === 'succeeded' || type === 'failed' || type === 'cancelled'
+
+const isFinished = (job: TryOnJob) => job.events.some(isFinalTryOnJobEvent)
+
+// A pass that was already running when the job was cancelled still resolves,
+// so anything after the final event is dropped.
+const emit = (job: TryOnJob, event: TryOnJobEvent) => {
+  if (isFinished(job)) return
+  job.events.push(event)
+  job.listeners.forEach((listener) => listener(event))
+  if (isFinalTryOnJobEvent(event)) job.listeners.clear()
+}
+
+// Starts rendering in the background and returns straight away; follow the
+// job with `subscribeToTryOnJob`. Jobs without a seed get a fresh one, so
+// every render can be reproduced from its history entry.
+export const startTryOnJob = (request: TryOnRequest) => {
+  const id = randomUUID()
+  const seed = request.seed ?? randomInt(2 ** 31 - 1)
+  const job: TryOnJob = {
+    events: [],
+    listeners: new Set(),
+    controller: new AbortController(),
+  }
+  tryOnJobs.set(id, job)
+
+  const { signal } = job.controller
+  void renderTryOn({
+    ...request,
+    seed,
+    signal,
+    onPassStarted: (progress) => {
+      emit(job, { type: 'pass-started', ...progress })
+    },
+    onPassCompleted: ({ image, ...progress }) => {
+      emit(job, {
+        type: 'pass-completed',
+        ...progress,
+        previewUrl: image ? toDataUrl(image) : null,
+      })
+    },
+  })
+    .then((image) => {
+      emit(job, {
+        type: 'succeeded',
+        image: toDataUrl(image),
+        seed,
+        modelVersion:
+          request.modelVersion ?? getImageEditProvider().defaultModelVersion,
+      })
+    })
+    .catch((error: unknown) => {
+      if (signal.aborted) return
+      console.error('Try-on job failed', error)
+      emit(job, {
+        type: 'failed',
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to generate outfit. Please try again.',
+      })
+    })
+
+  return id
+}
+
+// Replays everything the job has reported so far, then forwards new events
+// until the job finishes. Returns null when the job is unknown or expired.
+export const subscribeToTryOnJob = (
+  id: string,
+  listener: (event: TryOnJobEvent) => void,
+) => {
+  const job = tryOnJobs.get(id)
+  if (!job) return null
+
+  job.events.forEach(listener)
+  if (isFinished(job)) return () => {}
+
+  job.listeners.add(listener)
+  return () => {
+    job.listeners.delete(listener)
+  }
+}
+
+export const cancelTryOnJob = (id: string) => {
+  const job = tryOnJobs.get(id)
+  if (!job || isFinished(job)) return false
+
+  job.controller.abort()
+  emit(job, { type: 'cancelled' })
+  return true
+}
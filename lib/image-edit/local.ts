@@ -0,0 +1,97 @@
+import sharp from 'sharp'
+
+import type { SlotId } from '@/lib/types'
+
+import type { ImageEditProvider } from './types'
+
+const PORTRAIT_WIDTH = 768
+const PORTRAIT_HEIGHT = 1152
+const WHITE = { r: 255, g: 255, b: 255, alpha: 1 }
+
+type Placement = {
+  // Centre of the thumbnail, as a fraction of the portrait's width and height.
+  x: number
+  y: number
+  // Longest edge of the thumbnail, as a fraction of the portrait's width.
+  size: number
+}
+
+// Rough body positions for a centred, full-length 2:3 portrait.
+const GARMENT_PLACEMENTS: Record<SlotId, Placement> = {
+  head: { x: 0.5, y: 0.08, size: 0.28 },
+  eyewear: { x: 0.5, y: 0.13, size: 0.2 },
+  ears: { x: 0.62, y: 0.14, size: 0.1 },
+  neck: { x: 0.5, y: 0.22, size: 0.16 },
+  chest: { x: 0.5, y: 0.35, size: 0.4 },
+  outerwear: { x: 0.5, y: 0.37, size: 0.5 },
+  wetsuit: { x: 0.5, y: 0.5, size: 0.5 },
+  waist: { x: 0.5, y: 0.5, size: 0.3 },
+  legs: { x: 0.5, y: 0.68, size: 0.4 },
+  feet: { x: 0.5, y: 0.92, size: 0.32 },
+  bag: { x: 0.82, y: 0.5, size: 0.26 },
+  hand: { x: 0.18, y: 0.56, size: 0.22 },
+  watch: { x: 0.2, y: 0.47, size: 0.12 },
+  ring: { x: 0.8, y: 0.6, size: 0.1 },
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max)
+
+// Offline stand-in for the Gemini provider. It never inspects the person in
+// the photo: the portrait is letterboxed onto white and garment thumbnails are
+// pasted at fixed slot positions, so the same inputs always give the same
+// image.
+export const createLocalImageEditProvider = (): ImageEditProvider => ({
+  name: 'local',
+  defaultModelVersion: 'local-composite',
+  maxGarmentsPerPass: Number.POSITIVE_INFINITY,
+  removeBackground: async ({ buffer }) => ({
+    buffer: await sharp(buffer)
+      .rotate()
+      .resize(PORTRAIT_WIDTH, PORTRAIT_HEIGHT, {
+        fit: 'contain',
+        background: WHITE,
+      })
+      .flatten({ background: WHITE })
+      .png()
+      .toBuffer(),
+    mimeType: 'image/png',
+  }),
+  composeGarments: async ({ portrait, garments }) => {
+    const { width = PORTRAIT_WIDTH, height = PORTRAIT_HEIGHT } = await sharp(
+      portrait.buffer,
+    ).metadata()
+
+    const overlays = await Promise.all(
+      garments.map(async ({ buffer, slotId }) => {
+        const placement = GARMENT_PLACEMENTS[slotId]
+        const size = Math.max(1, Math.round(placement.size * width))
+        const { data, info } = await sharp(buffer)
+          .resize(Math.min(size, width), Math.min(size, height), {
+            fit: 'inside',
+          })
+          .png()
+          .toBuffer({ resolveWithObject: true })
+
+        return {
+          input: data,
+          left: clamp(
+            Math.round(placement.x * width - info.width / 2),
+            0,
+            width - info.width,
+          ),
+          top: clamp(
+            Math.round(placement.y * height - info.height / 2),
+            0,
+            height - info.height,
+          ),
+        }
+      }),
+    )
+
+    return {
+      buffer: await sharp(portrait.buffer).composite(overlays).png().toBuffer(),
+      mimeType: 'image/png',
+    }
+  },
+})
@@ -0,0 +1,72 @@
+import { createHash } from 'node:crypto'
+
+import { createTtlCache } from '@/lib/ttl-cache'
+
+import type {
+  EditableImage,
+  GarmentImage,
+  ImageEditProviderName,
+} from './types'
+
+const PASS_CACHE_TTL_MS = 30 * 60 * 1000
+// Entries are full portraits (several MB per Gemini pass), so bound the
+// cache by size as well as count.
+const PASS_CACHE_MAX_ENTRIES = 50
+const PASS_CACHE_MAX_BYTES = 200 * 1024 * 1024
+
+export const tryOnPassCache = createTtlCache<EditableImage>({
+  ttlMs: PASS_CACHE_TTL_MS,
+  maxEntries: PASS_CACHE_MAX_ENTRIES,
+  maxBytes: PASS_CACHE_MAX_BYTES,
+  sizeOf: ({ buffer }) => buffer.byteLength,
+})
+
+export type TryOnPass = {
+  garments: GarmentImage[]
+  cacheKey: string
+}
+
+const hashBuffer = (buffer: Buffer) =>
+  createHash('sha256').update(buffer).digest('hex')
+
+// Splits the garments into provider-sized passes. Each pass is keyed by the
+// base portrait and every garment applied up to and including it, so a change
+// to a late layer leaves the keys of the earlier passes untouched.
+export const buildTryOnPasses = ({
+  providerName,
+  maxGarmentsPerPass,
+  portrait,
+  garments,
+  modelVersion,
+  seed,
+}: {
+  providerName: ImageEditProviderName
+  maxGarmentsPerPass: number
+  portrait: EditableImage
+  garments: GarmentImage[]
+  modelVersion?: string
+  seed?: number | null
+}): TryOnPass[] => {
+  const portraitHash = hashBuffer(portrait.buffer)
+  const garmentKeys = garments.map(({ slotId, buffer }) => [
+    slotId,
+    hashBuffer(buffer),
+  ])
+  const passes: TryOnPass[] = []
+
+  for (let i = 0; i < garments.length; i += maxGarmentsPerPass) {
+    const end = Math.min(i + maxGarmentsPerPass, garments.length)
+    passes.push({
+      garments: garments.slice(i, end),
+      cacheKey: JSON.stringify([
+        providerName,
+        modelVersion ?? null,
+        seed ?? null,
+        portraitHash,
+        garmentKeys.slice(0, end),
+      ]),
+    })
+  }
+
+  return passes
+}
@@ -0,0 +1,200 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import { getImageEditProvider } from '@/lib/image-edit'
+import { getCoveredSlots, LAYERING_ORDER } from '@/lib/slots'
+import type { SlotId, WardrobeSlotImage } from '@/lib/types'
+
+import { buildTryOnPasses, tryOnPassCache } from './pass-cache'
+import type { EditableImage, GarmentImage } from './types'
+
+export type TryOnRequest = {
+  portrait: { buffer?: Buffer; mimeType?: string; dataUrl?: string }
+  slots: Partial<Record<SlotId, WardrobeSlotImage | null>>
+  modelVersion?: string
+  seed?: number | null
+}
+
+export type TryOnPassProgress = {
+  // 1-based, so it reads naturally in "pass 2 of 3".
+  pass: number
+  totalPasses: number
+  slotIds: SlotId[]
+}
+
+export const dataUrlToBuffer = (dataUrl: string): EditableImage => {
+  const matches = dataUrl.match(/^data:(.+);base64,(.*)$/)
+  if (!matches) {
+    throw new Error('Invalid portrait data URL.')
+  }
+  const mimeType = matches[1] || 'image/png'
+  const base64 = matches[2]
+  return {
+    mimeType,
+    buffer: Buffer.from(base64, 'base64'),
+  }
+}
+
+export const toDataUrl = ({ buffer, mimeType }: EditableImage) =>
+  `data:${mimeType};base64,${buffer.toString('base64')}`
+
+async function fetchImageBufferFromUrl(
+  url: string,
+  label: string,
+): Promise<Buffer> {
+  // Fixture catalog images are served from /public, so read them off disk.
+  if (url.startsWith('/')) {
+    return readFile(path.join(process.cwd(), 'public', path.normalize(url)))
+  }
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load ${label} from ${url}`)
+  }
+  const arrayBuffer = await response.arrayBuffer()
+  return Buffer.from(arrayBuffer)
+}
+
+// Stops waiting once the job is cancelled. The shared load itself carries on,
+// since other jobs may be waiting on the same pass.
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal) => {
+  if (!signal) return promise
+  signal.throwIfAborted()
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+export const renderTryOn = async ({
+  portrait,
+  slots,
+  modelVersion,
+  seed,
+  signal,
+  onPassStarted,
+  onPassCompleted,
+}: TryOnRequest & {
+  signal?: AbortSignal
+  onPassStarted?: (progress: TryOnPassProgress) => void
+  // `image` is null for cached passes that an even later cached pass covers.
+  onPassCompleted?: (
+    progress: TryOnPassProgress & {
+      image: EditableImage | null
+      cached: boolean
+    },
+  ) => void
+}): Promise<EditableImage> => {
+  const garments: GarmentImage[] = []
+  // A multi-slot garment takes precedence over anything sent for the slots
+  // it covers.
+  const coveredSlots = new Set(
+    LAYERING_ORDER.filter((slot) => slots[slot]).flatMap(getCoveredSlots),
+  )
+
+  for (const slot of LAYERING_ORDER) {
+    const asset = slots[slot]
+    if (!asset || coveredSlots.has(slot)) continue
+
+    if (asset.buffer) {
+      garments.push({
+        slotId: slot,
+        buffer: asset.buffer,
+        mimeType: asset.mimeType ?? 'image/png',
+      })
+      continue
+    }
+
+    if (!asset.imageUrl) continue
+    const buffer = await fetchImageBufferFromUrl(asset.imageUrl, `slot ${slot}`)
+    garments.push({
+      slotId: slot,
+      buffer,
+      mimeType: asset.mimeType ?? 'image/png',
+    })
+  }
+
+  if (!garments.length) {
+    throw new Error('At least one slot needs an image to render an outfit.')
+  }
+
+  let portraitBuffer = portrait.buffer
+  let portraitMimeType = portrait.mimeType
+  if (!portraitBuffer && portrait.dataUrl) {
+    const parsed = dataUrlToBuffer(portrait.dataUrl)
+    portraitBuffer = parsed.buffer
+    portraitMimeType = parsed.mimeType
+  }
+  if (!portraitBuffer) {
+    throw new Error('A processed portrait is required before generating.')
+  }
+
+  const provider = getImageEditProvider()
+  const basePortrait = {
+    buffer: portraitBuffer,
+    mimeType: portraitMimeType || 'image/png',
+  }
+  const passes = buildTryOnPasses({
+    providerName: provider.name,
+    maxGarmentsPerPass: provider.maxGarmentsPerPass,
+    portrait: basePortrait,
+    garments,
+    modelVersion,
+    seed,
+  })
+  const toProgress = (index: number): TryOnPassProgress => ({
+    pass: index + 1,
+    totalPasses: passes.length,
+    slotIds: passes[index].garments.map(({ slotId }) => slotId),
+  })
+
+  // Without a seed the provider returns a different render each time, which is
+  // what a retry is for, so only seeded passes are cached and reused.
+  const isCacheable = seed != null
+
+  // Resume after the deepest pass that is already cached for this prefix.
+  let workingPortrait = basePortrait
+  let firstPass = 0
+  for (let index = passes.length - 1; isCacheable && index >= 0; index--) {
+    const cached = tryOnPassCache.get(passes[index].cacheKey)
+    if (cached) {
+      workingPortrait = cached
+      firstPass = index + 1
+      break
+    }
+  }
+  for (let index = 0; index < firstPass; index++) {
+    onPassCompleted?.({
+      ...toProgress(index),
+      image: index === firstPass - 1 ? workingPortrait : null,
+      cached: true,
+    })
+  }
+
+  for (let index = firstPass; index < passes.length; index++) {
+    signal?.throwIfAborted()
+    onPassStarted?.(toProgress(index))
+    const compose = (passSignal?: AbortSignal) =>
+      provider.composeGarments({
+        portrait: workingPortrait,
+        garments: passes[index].garments,
+        modelVersion,
+        seed,
+        signal: passSignal,
+      })
+    const value = isCacheable
+      ? (
+          await abortable(
+            tryOnPassCache.getOrLoad(passes[index].cacheKey, () => compose()),
+            signal,
+          )
+        ).value
+      : await compose(signal)
+    workingPortrait = value
+    onPassCompleted?.({ ...toProgress(index), image: value, cached: false })
+  }
+
+  return workingPortrait
+}
@@ -0,0 +1,31 @@
+import type { SlotId } from '@/lib/types'
+
+export type EditableImage = {
+  buffer: Buffer
+  mimeType: string
+}
+
+export type GarmentImage = EditableImage & {
+  slotId: SlotId
+}
+
+export type ComposeGarmentsParams = {
+  portrait: EditableImage
+  // Ordered from the innermost layer out.
+  garments: GarmentImage[]
+  modelVersion?: string
+  seed?: number | null
+  signal?: AbortSignal
+}
+
+export type ImageEditProvider = {
+  name: ImageEditProviderName
+  // Used when a request doesn't ask for a specific model.
+  defaultModelVersion: string
+  // How many garments a single compositing call can apply.
+  maxGarmentsPerPass: number
+  removeBackground: (image: EditableImage) => Promise<EditableImage>
+  composeGarments: (params: ComposeGarmentsParams) => Promise<EditableImage>
+}
+
+export type ImageEditProviderName = 'gemini' | 'local'
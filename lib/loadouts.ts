@@ -0,0 +1,74 @@
+import { sumPrices } from '@/lib/budget'
+import { getEquippedItems, type EquippedItem } from '@/lib/equipment'
+import type { EquippedState, Loadout, ProductSummary } from '@/lib/types'
+
+const createLoadoutId = () =>
+  `loadout-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+export const createLoadout = (
+  name: string,
+  equipped: EquippedState = {},
+): Loadout => ({
+  id: createLoadoutId(),
+  name,
+  equipped,
+  renderUrl: null,
+  updatedAt: new Date().toISOString(),
+})
+
+export const nextLoadoutName = (loadouts: Loadout[]) => {
+  const names = new Set(loadouts.map((loadout) => loadout.name.toLowerCase()))
+  let index = loadouts.length + 1
+  while (names.has(`outfit ${index}`)) index += 1
+  return `Outfit ${index}`
+}
+
+// Totals in the first item's currency unless one is given, so two loadouts
+// can be compared in the same currency.
+export const getLoadoutTotal = (loadout: Loadout, currency?: string) => {
+  const items = getEquippedItems(loadout.equipped)
+  const totalCurrency =
+    currency || items[0]?.product.currency?.toUpperCase() || 'USD'
+  const { total, uncounted } = sumPrices(
+    items.map(({ product }) => product),
+    totalCurrency,
+  )
+  return { total, currency: totalCurrency, count: items.length, uncounted }
+}
+
+// Takes a product off every loadout that has it equipped.
+export const removeProductFromLoadouts = (
+  loadouts: Loadout[],
+  productId: string,
+) =>
+  loadouts.map((loadout) => {
+    const entries = Object.entries(loadout.equipped)
+    const kept = entries.filter(([, product]) => product?.id !== productId)
+    if (kept.length === entries.length) return loadout
+    return {
+      ...loadout,
+      equipped: Object.fromEntries(kept) as EquippedState,
+      updatedAt: new Date().toISOString(),
+    }
+  })
+
+export type LoadoutComparison = {
+  shared: ProductSummary[]
+  onlyLeft: EquippedItem[]
+  onlyRight: EquippedItem[]
+}
+
+export const compareLoadouts = (left: Loadout, right: Loadout) => {
+  const leftItems = getEquippedItems(left.equipped)
+  const rightItems = getEquippedItems(right.equipped)
+  const rightIds = new Set(rightItems.map(({ product }) => product.id))
+  const leftIds = new Set(leftItems.map(({ product }) => product.id))
+
+  return {
+    shared: leftItems
+      .filter(({ product }) => rightIds.has(product.id))
+      .map(({ product }) => product),
+    onlyLeft: leftItems.filter(({ product }) => !rightIds.has(product.id)),
+    onlyRight: rightItems.filter(({ product }) => !leftIds.has(product.id)),
+  } satisfies LoadoutComparison
+}
@@ -0,0 +1,187 @@
+import { productCurrency, sumPrices } from '@/lib/budget'
+import { formatCurrency } from '@/lib/currency'
+import {
+  equipProduct,
+  getCoveringSlot,
+  getEquippedItems,
+} from '@/lib/equipment'
+import { evaluateOutfit } from '@/lib/outfit-rules'
+import {
+  getLikelySlots,
+  getSlotCandidates,
+  MIN_SLOT_CONFIDENCE,
+} from '@/lib/slot-classifier'
+import { getSlotDisplayLabel, SLOT_IDS } from '@/lib/slots'
+import type {
+  EquippedState,
+  ProductSummary,
+  ShopperBudget,
+  SlotId,
+} from '@/lib/types'
+
+export type OutfitSuggestion = {
+  slotId: SlotId
+  product: ProductSummary
+  source: 'saved' | 'deck'
+  reason: string
+}
+
+type Candidate = {
+  slotId: SlotId
+  product: ProductSummary
+  source: OutfitSuggestion['source']
+  score: number
+  matchedKeywords: string[]
+  isPlanned: boolean
+}
+
+// Saved products were picked by the shopper, so they beat an equally good
+// match that is still sitting in the deck.
+const SAVED_BONUS = 0.25
+const PLANNED_SLOT_BONUS = 0.2
+const PLANNED_SLOT_CONFIDENCE = 0.5
+
+const toCandidate = (
+  slotId: SlotId,
+  product: ProductSummary,
+  source: Candidate['source'],
+): Candidate | null => {
+  const match = getSlotCandidates(product).find(
+    (candidate) => candidate.slotId === slotId,
+  )
+  const isPlanned = product.plannedSlot === slotId
+  const confidence =
+    match?.confidence ?? (isPlanned ? PLANNED_SLOT_CONFIDENCE : 0)
+  if (!isPlanned && confidence < MIN_SLOT_CONFIDENCE) return null
+
+  return {
+    slotId,
+    product,
+    source,
+    score:
+      confidence +
+      (source === 'saved' ? SAVED_BONUS : 0) +
+      (isPlanned ? PLANNED_SLOT_BONUS : 0),
+    matchedKeywords: match?.matchedKeywords ?? [],
+    isPlanned,
+  }
+}
+
+const describeCandidate = (
+  { slotId, product, source, matchedKeywords, isPlanned }: Candidate,
+  remaining: number | null,
+  currency: string,
+) => {
+  const origin = source === 'saved' ? 'Saved by you' : 'Queued from a search'
+  const fit = isPlanned
+    ? `fetched as the ${getSlotDisplayLabel(slotId).toLowerCase()} for your outfit plan`
+    : matchedKeywords.length
+      ? `matches “${matchedKeywords.slice(0, 2).join('”, “')}”`
+      : `the closest ${getSlotDisplayLabel(slotId).toLowerCase()} match`
+  const price = formatCurrency(
+    Number(product.price) || 0,
+    productCurrency(product),
+  )
+  const cost =
+    remaining === null
+      ? `${price}.`
+      : `${price} leaves ${formatCurrency(remaining, currency)} of your budget.`
+  return `${origin}; ${fit}. ${cost}`
+}
+
+// Picks one product for each empty slot, strongest matches first. A pick is
+// skipped when it would take something off, add a compatibility warning, or
+// push the outfit over budget. With a budget set, products priced in another
+// currency can't be compared against it and are skipped too.
+export const suggestOutfitCompletion = ({
+  equipped,
+  slotOptions,
+  deck,
+  budget = null,
+  activity = null,
+}: {
+  equipped: EquippedState
+  // Saved products grouped by the slots they fit, as the slot popovers list them.
+  slotOptions: Partial<Record<SlotId, ProductSummary[]>>
+  deck: ProductSummary[]
+  budget?: ShopperBudget | null
+  activity?: string | null
+}): OutfitSuggestion[] => {
+  const emptySlots = SLOT_IDS.filter(
+    (slotId) => !equipped[slotId] && !getCoveringSlot(equipped, slotId),
+  )
+  const candidates = emptySlots
+    .flatMap((slotId) => [
+      ...(slotOptions[slotId] ?? []).map((product) =>
+        toCandidate(slotId, product, 'saved'),
+      ),
+      ...deck
+        .filter(
+          (product) =>
+            product.plannedSlot === slotId ||
+            getLikelySlots(product).includes(slotId),
+        )
+        .map((product) => toCandidate(slotId, product, 'deck')),
+    ])
+    .filter((candidate): candidate is Candidate => candidate !== null)
+    .sort((a, b) => b.score - a.score)
+
+  const equippedItems = getEquippedItems(equipped)
+  const usedIds = new Set(equippedItems.map(({ product }) => product.id))
+  const baselineWarnings = new Set(
+    evaluateOutfit(equipped, { activity })
+      .filter((warning) => warning.severity === 'warning')
+      .map((warning) => warning.ruleId),
+  )
+  const currency = budget?.currency || 'USD'
+  // Matches getBudgetStatus: only prices in the budget's currency count.
+  let remaining = budget
+    ? budget.amount -
+      sumPrices(
+        equippedItems.map(({ product }) => product),
+        budget.currency,
+      ).total
+    : null
+  let working = equipped
+  const suggestions: OutfitSuggestion[] = []
+
+  candidates.forEach((candidate) => {
+    const { slotId, product } = candidate
+    if (working[slotId] || getCoveringSlot(working, slotId)) return
+    if (usedIds.has(product.id)) return
+
+    const price = Number(product.price) || 0
+    if (remaining !== null) {
+      if (productCurrency(product) !== currency.toUpperCase()) return
+      if (price > remaining) return
+    }
+
+    const { equipped: next, displaced } = equipProduct(working, slotId, product)
+    if (displaced.length) return
+    const introducesWarning = evaluateOutfit(next, { activity }).some(
+      (warning) =>
+        warning.severity === 'warning' && !baselineWarnings.has(warning.ruleId),
+    )
+    if (introducesWarning) return
+
+    working = next
+    usedIds.add(product.id)
+    if (remaining !== null) remaining -= price
+    suggestions.push({
+      slotId,
+      product,
+      source: candidate.source,
+      reason: describeCandidate(candidate, remaining, currency),
+    })
+  })
+
+  return suggestions
+}
+
+export const describeOutfitSuggestions = (suggestions: OutfitSuggestion[]) =>
+  suggestions
+    .map(
+      ({ slotId, product, reason }) =>
+        `${getSlotDisplayLabel(slotId)}: ${product.name}. ${reason}`,
+    )
+    .join(' ')
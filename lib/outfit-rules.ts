@@ -0,0 +1,212 @@
+import { detectOutfitActivity } from '@/lib/catalog/planner'
+import { getEquippedItems, getOccupiedSlots } from '@/lib/equipment'
+import { getSlotCandidates } from '@/lib/slot-classifier'
+import type { EquippedState, ProductSummary, SlotId } from '@/lib/types'
+
+export type OutfitWarningSeverity = 'warning' | 'info'
+
+export type OutfitWarning = {
+  ruleId: string
+  severity: OutfitWarningSeverity
+  message: string
+  slotIds: SlotId[]
+}
+
+type ItemMatcher = {
+  pattern: RegExp
+  unless?: RegExp
+  slotIds?: SlotId[]
+}
+
+type OutfitRule =
+  | {
+      id: string
+      kind: 'incompatible'
+      items: [ItemMatcher, ItemMatcher]
+      message: string
+    }
+  | {
+      id: string
+      kind: 'essentials'
+      activity: string
+      // Each entry is satisfied when any of its slots is occupied.
+      requires: Array<{ slotIds: SlotId[]; label: string }>
+    }
+  | {
+      id: string
+      kind: 'duplicate'
+      category: string
+      // Fires when more than one equipped item is classified for this slot,
+      // i.e. the extras were assigned somewhere else by hand.
+      slotId: SlotId
+    }
+
+export const OUTFIT_RULES: OutfitRule[] = [
+  {
+    id: 'socks-with-surfboard',
+    kind: 'incompatible',
+    items: [
+      { pattern: /\bsocks?\b/, unless: /\bneoprene\b/, slotIds: ['feet'] },
+      { pattern: /\bsurf ?boards?\b/ },
+    ],
+    message:
+      'Socks and a surfboard don’t mix — swap to sandals or booties for the water.',
+  },
+  {
+    id: 'heels-on-trail',
+    kind: 'incompatible',
+    items: [
+      { pattern: /\bheels?\b|\bstilettos?\b|\bpumps\b/, slotIds: ['feet'] },
+      { pattern: /\bhiking\b|\btrail\b|\bbackpack\b/ },
+    ],
+    message: 'Heels won’t hold up on the trail — hiking boots are safer.',
+  },
+  {
+    id: 'jewelry-in-wetsuit',
+    kind: 'incompatible',
+    items: [
+      { pattern: /\bwet ?suit\b|\bspring ?suit\b/ },
+      {
+        pattern: /\bearrings?\b|\bhoops?\b|\bbracelets?\b/,
+        slotIds: ['ears', 'hand'],
+      },
+    ],
+    message:
+      'Dangling jewelry tends to get lost in the surf — consider leaving it on the beach.',
+  },
+  {
+    id: 'surf-essentials',
+    kind: 'essentials',
+    activity: 'surf',
+    requires: [
+      { slotIds: ['chest', 'wetsuit'], label: 'a rash guard or wetsuit' },
+      { slotIds: ['legs', 'wetsuit'], label: 'boardshorts' },
+    ],
+  },
+  {
+    id: 'beach-essentials',
+    kind: 'essentials',
+    activity: 'beach',
+    requires: [
+      { slotIds: ['head', 'eyewear'], label: 'a hat or sunglasses' },
+      { slotIds: ['feet'], label: 'sandals' },
+    ],
+  },
+  {
+    id: 'hike-essentials',
+    kind: 'essentials',
+    activity: 'hike',
+    requires: [
+      { slotIds: ['feet'], label: 'hiking boots' },
+      { slotIds: ['outerwear', 'chest'], label: 'a layer up top' },
+    ],
+  },
+  {
+    id: 'duplicate-footwear',
+    kind: 'duplicate',
+    category: 'pairs of shoes',
+    slotId: 'feet',
+  },
+  {
+    id: 'duplicate-headwear',
+    kind: 'duplicate',
+    category: 'hats',
+    slotId: 'head',
+  },
+  {
+    id: 'duplicate-bags',
+    kind: 'duplicate',
+    category: 'bags',
+    slotId: 'bag',
+  },
+]
+
+const ACTIVITY_LABELS: Record<string, string> = {
+  surf: 'a surf session',
+  beach: 'a beach day',
+  hike: 'a hike',
+}
+
+const itemText = (product: ProductSummary) =>
+  `${product.name} ${product.description ?? ''}`.toLowerCase()
+
+const matchesItem = (
+  { slotId, product }: { slotId: SlotId; product: ProductSummary },
+  matcher: ItemMatcher,
+) => {
+  if (matcher.slotIds && !matcher.slotIds.includes(slotId)) return false
+  const text = itemText(product)
+  return matcher.pattern.test(text) && !matcher.unless?.test(text)
+}
+
+// Checks the equipped outfit against every rule. `activity` is free text,
+// typically the shopper's last search, and only drives the essentials rules.
+export const evaluateOutfit = (
+  equipped: EquippedState,
+  { activity }: { activity?: string | null } = {},
+): OutfitWarning[] => {
+  const items = getEquippedItems(equipped)
+  if (!items.length) return []
+
+  const occupied = new Set(
+    items.flatMap(({ slotId }) => getOccupiedSlots(slotId)),
+  )
+  const detectedActivity = activity ? detectOutfitActivity(activity) : null
+
+  return OUTFIT_RULES.flatMap<OutfitWarning>((rule) => {
+    if (rule.kind === 'incompatible') {
+      const [first, second] = rule.items
+      const firstMatch = items.find((item) => matchesItem(item, first))
+      const secondMatch = items.find(
+        (item) => item !== firstMatch && matchesItem(item, second),
+      )
+      if (!firstMatch || !secondMatch) return []
+      return [
+        {
+          ruleId: rule.id,
+          severity: 'warning',
+          message: rule.message,
+          slotIds: [firstMatch.slotId, secondMatch.slotId],
+        },
+      ]
+    }
+
+    if (rule.kind === 'essentials') {
+      if (rule.activity !== detectedActivity) return []
+      const missing = rule.requires.filter(
+        ({ slotIds }) => !slotIds.some((slotId) => occupied.has(slotId)),
+      )
+      if (!missing.length) return []
+      return [
+        {
+          ruleId: rule.id,
+          severity: 'info',
+          message: `For ${ACTIVITY_LABELS[rule.activity] ?? rule.activity} you still need ${missing
+            .map(({ label }) => label)
+            .join(' and ')}.`,
+          slotIds: missing.map(({ slotIds }) => slotIds[0]),
+        },
+      ]
+    }
+
+    const matches = items.filter(
+      ({ slotId, product }) =>
+        slotId === rule.slotId ||
+        getSlotCandidates(product)[0]?.slotId === rule.slotId,
+    )
+    if (matches.length < 2) return []
+    return [
+      {
+        ruleId: rule.id,
+        severity: 'warning',
+        message: `${matches.length} ${rule.category} are equipped: ${matches
+          .map(({ product }) => product.name)
+          .join(', ')}.`,
+        slotIds: matches.map(({ slotId }) => slotId),
+      },
+    ]
+  })
+}
+
+export const describeOutfitWarnings = (warnings: OutfitWarning[]) =>
+  warnings.map(({ message }) => message).join(' ')
@@ -0,0 +1,91 @@
+import { randomBytes } from 'node:crypto'
+import { z } from 'zod'
+
+import type { SharedOutfitInput } from '@/lib/outfit-share'
+import { isSlotId } from '@/lib/slots'
+import { createTtlCache } from '@/lib/ttl-cache'
+import type { SharedOutfit } from '@/lib/types'
+
+// In-memory like the session store: links outlive a reload, not a redeploy.
+// The byte budget drops the least recently opened outfits first.
+const sharedOutfits = createTtlCache<SharedOutfit>({
+  ttlMs: 30 * 24 * 60 * 60 * 1000,
+  maxEntries: 1000,
+  maxBytes: 128 * 1024 * 1024,
+  sizeOf: (outfit) => Buffer.byteLength(JSON.stringify(outfit)),
+})
+
+const MAX_ITEMS = 20
+const MAX_RENDER_LENGTH = 8 * 1024 * 1024
+const MAX_URL_LENGTH = 2048
+
+// Shared outfits are rendered for anyone with the link, so links must be web
+// pages and images must be web, same-origin or inline image URLs.
+const isHttpUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+const isImageUrl = (value: string) =>
+  isHttpUrl(value) ||
+  /^\/(?![/\\])/.test(value) ||
+  /^data:image\/(png|jpeg|webp|gif);base64,/.test(value)
+
+const linkSchema = z
+  .string()
+  .max(MAX_URL_LENGTH)
+  .refine(isHttpUrl, 'Product links must be http(s) URLs.')
+
+const imageSchema = z
+  .string()
+  .max(MAX_URL_LENGTH)
+  .refine(isImageUrl, 'Product images must be http(s) or same-site URLs.')
+
+const sharedOutfitInputSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  items: z
+    .array(
+      z.object({
+        slotId: z.string().refine(isSlotId, 'Unknown slot.'),
+        // Unknown fields are stripped; these are the ones toSharedProduct sends.
+        product: z.object({
+          id: z.string().min(1),
+          name: z.string().max(300),
+          description: z.string().max(5000).nullish(),
+          price: z.number(),
+          currency: z.string().max(10).nullish(),
+          imageUrl: imageSchema.nullish(),
+          productLink: linkSchema.nullish(),
+          source: z.string().max(100).nullish(),
+        }),
+      }),
+    )
+    .min(1, 'Equip at least one item before sharing.')
+    .max(MAX_ITEMS),
+  renderUrl: z
+    .string()
+    .max(MAX_RENDER_LENGTH, 'The try-on image is too large to share.')
+    .refine(isImageUrl, 'The try-on image must be an image URL.')
+    .nullable(),
+})
+
+export const saveSharedOutfit = (input: SharedOutfitInput) => {
+  const parsed = sharedOutfitInputSchema.safeParse(input)
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? 'Invalid outfit.')
+  }
+
+  const outfit = {
+    ...parsed.data,
+    id: randomBytes(9).toString('base64url'),
+    createdAt: new Date().toISOString(),
+  } as SharedOutfit
+  sharedOutfits.set(outfit.id, outfit)
+  return outfit
+}
+
+export const loadSharedOutfit = (id: string) => sharedOutfits.get(id) ?? null
@@ -0,0 +1,112 @@
+import { getEquippedItems } from '@/lib/equipment'
+import { createLoadout } from '@/lib/loadouts'
+import type {
+  EquippedState,
+  Loadout,
+  ProductSummary,
+  SharedOutfit,
+  WardrobeSession,
+} from '@/lib/types'
+
+export type SharedOutfitInput = Omit<SharedOutfit, 'id' | 'createdAt'>
+
+// Only the fields the read-only view and a later import need travel in a
+// link, so internal scoring data doesn't leak into shared snapshots.
+const toSharedProduct = (product: ProductSummary) =>
+  ({
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    price: product.price,
+    currency: product.currency,
+    imageUrl: product.imageUrl,
+    productLink: product.productLink,
+    source: product.source,
+  }) as ProductSummary
+
+export const buildOutfitSnapshot = (
+  loadout: Loadout,
+  { includeRender }: { includeRender: boolean },
+): SharedOutfitInput => ({
+  name: loadout.name,
+  items: getEquippedItems(loadout.equipped).map(({ slotId, product }) => ({
+    slotId,
+    product: toSharedProduct(product),
+  })),
+  renderUrl: includeRender ? loadout.renderUrl : null,
+})
+
+const mergeProducts = (
+  existing: ProductSummary[],
+  incoming: ProductSummary[],
+) => {
+  const known = new Set(existing.map((product) => product.id))
+  return [...existing, ...incoming.filter((product) => !known.has(product.id))]
+}
+
+// Adds a shared outfit to a wardrobe session as a new loadout, saving its
+// products so they can be re-equipped or mixed into other outfits.
+export const importSharedOutfit = (
+  session: WardrobeSession | null,
+  outfit: SharedOutfit,
+  sessionId: string,
+): WardrobeSession => {
+  const products = outfit.items.map(({ product }) => product)
+  const importedIds = new Set(products.map((product) => product.id))
+  const loadout = {
+    ...createLoadout(
+      outfit.name,
+      outfit.items.reduce<EquippedState>((equipped, { slotId, product }) => {
+        equipped[slotId] = product
+        return equipped
+      }, {}),
+    ),
+    renderUrl: outfit.renderUrl,
+  }
+
+  const intake = session?.intake ?? {
+    products: [],
+    batches: [],
+    lastQuery: null,
+    lastSearch: null,
+  }
+  const wardrobe = session?.wardrobe
+
+  return {
+    id: sessionId,
+    version: 2,
+    updatedAt: new Date().toISOString(),
+    intake: {
+      ...intake,
+      products: mergeProducts(intake.products, products),
+      batches: [
+        {
+          id: `shared-${outfit.id}-${Date.now()}`,
+          query: `Shared outfit: ${outfit.name}`,
+          count: products.length,
+          filters: [],
+          plannedSlots: [],
+        },
+        ...intake.batches,
+      ],
+    },
+    wardrobe: {
+      deck: (wardrobe?.deck ?? intake.products).filter(
+        (product) => !importedIds.has(product.id),
+      ),
+      saved: mergeProducts(wardrobe?.saved ?? [], products),
+      dismissedIds: (wardrobe?.dismissedIds ?? []).filter(
+        (id) => !importedIds.has(id),
+      ),
+      maybeLater: (wardrobe?.maybeLater ?? []).filter(
+        (product) => !importedIds.has(product.id),
+      ),
+      loadouts: [...(wardrobe?.loadouts ?? []), loadout],
+      activeLoadoutId: loadout.id,
+      activeStep: 'wardrobe',
+      portraitUrl: wardrobe?.portraitUrl ?? null,
+      renders: wardrobe?.renders ?? [],
+    },
+    budget: session?.budget ?? null,
+  }
+}
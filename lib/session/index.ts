@@ -0,0 +1,114 @@
+import type { WardrobeSession } from '@/lib/types'
+
+import {
+  deleteLocalSession,
+  isIndexedDbAvailable,
+  readLocalSession,
+  writeLocalSession,
+} from './indexed-db'
+import { MAX_SESSION_BYTES } from './limits'
+import { migrateWardrobeSession } from './migrate'
+import {
+  deleteRemoteSession,
+  readRemoteSession,
+  writeRemoteSession,
+} from './remote'
+
+const SESSION_ID_KEY = 'cross-cart:session-id'
+
+const isRemoteSyncEnabled = () =>
+  process.env.NEXT_PUBLIC_SESSION_SYNC === 'true'
+
+const createSessionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+
+export const getSessionId = () => {
+  const existing = window.localStorage.getItem(SESSION_ID_KEY)
+  if (existing) return existing
+  const id = createSessionId()
+  window.localStorage.setItem(SESSION_ID_KEY, id)
+  return id
+}
+
+// IndexedDB is the source of truth on this device; the server copy, when
+// enabled, wins only if it is newer (e.g. the session continued elsewhere).
+export const loadWardrobeSession = async (
+  id: string,
+): Promise<WardrobeSession | null> => {
+  const [local, remote] = await Promise.all([
+    isIndexedDbAvailable()
+      ? readLocalSession(id)
+          .then((session) => session && migrateWardrobeSession(session))
+          .catch((error) => {
+            console.warn('Could not read the local wardrobe session:', error)
+            return null
+          })
+      : null,
+    isRemoteSyncEnabled()
+      ? readRemoteSession(id)
+          .then((session) => session && migrateWardrobeSession(session))
+          .catch((error) => {
+            console.warn('Could not read the server wardrobe session:', error)
+            return null
+          })
+      : null,
+  ])
+
+  if (!local || !remote) return local ?? remote
+  return remote.updatedAt > local.updatedAt ? remote : local
+}
+
+const getSessionBytes = (session: WardrobeSession) =>
+  new TextEncoder().encode(JSON.stringify(session)).byteLength
+
+// Render history can push a session past the server's size limit, so the
+// server copy keeps as many of the newest renders as fit. IndexedDB keeps all
+// of them, and wins on load because both copies share an updatedAt.
+const fitSessionForSync = (session: WardrobeSession) => {
+  let fitted = session
+  while (
+    getSessionBytes(fitted) > MAX_SESSION_BYTES &&
+    fitted.wardrobe?.renders?.length
+  ) {
+    fitted = {
+      ...fitted,
+      wardrobe: {
+        ...fitted.wardrobe,
+        renders: fitted.wardrobe.renders.slice(0, -1),
+      },
+    }
+  }
+  return getSessionBytes(fitted) > MAX_SESSION_BYTES ? null : fitted
+}
+
+const syncRemoteSession = async (session: WardrobeSession) => {
+  const fitted = fitSessionForSync(session)
+  if (!fitted) {
+    console.warn(
+      'The wardrobe session is too large to sync, even without try-on history.',
+    )
+    return
+  }
+  await writeRemoteSession(fitted).catch((error) => {
+    console.warn('Could not sync the wardrobe session:', error)
+  })
+}
+
+export const saveWardrobeSession = async (session: WardrobeSession) => {
+  await Promise.all([
+    isIndexedDbAvailable() ? writeLocalSession(session) : null,
+    isRemoteSyncEnabled() ? syncRemoteSession(session) : null,
+  ])
+}
+
+// Drops the stored session and hands out a fresh id for the next one.
+export const clearWardrobeSession = async (id: string) => {
+  window.localStorage.removeItem(SESSION_ID_KEY)
+  await Promise.all([
+    isIndexedDbAvailable() ? deleteLocalSession(id) : null,
+    isRemoteSyncEnabled() ? deleteRemoteSession(id).catch(() => {}) : null,
+  ])
+  return getSessionId()
+}
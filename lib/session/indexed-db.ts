@@ -0,0 +1,61 @@
+import type { WardrobeSession } from '@/lib/types'
+
+import type { StoredWardrobeSession } from './migrate'
+
+const DB_NAME = 'cross-cart'
+const DB_VERSION = 1
+const STORE_NAME = 'wardrobe-sessions'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () =>
+      reject(request.error ?? new Error('Could not open session storage.'))
+  }).catch((error) => {
+    // Let the next call try again instead of caching the failure.
+    databasePromise = null
+    throw error
+  })
+
+  return databasePromise
+}
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  perform: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const database = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const request = perform(
+      database.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+    )
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () =>
+      reject(request.error ?? new Error('Session storage request failed.'))
+  })
+}
+
+export const isIndexedDbAvailable = () =>
+  typeof window !== 'undefined' && 'indexedDB' in window
+
+export const readLocalSession = async (id: string) =>
+  ((await runRequest('readonly', (store) => store.get(id))) as
+    StoredWardrobeSession | undefined) ?? null
+
+export const writeLocalSession = async (session: WardrobeSession) => {
+  await runRequest('readwrite', (store) => store.put(session))
+}
+
+export const deleteLocalSession = async (id: string) => {
+  await runRequest('readwrite', (store) => store.delete(id))
+}
@@ -0,0 +1,2 @@
+// Shared by the session API and the client, which trims what it syncs to fit.
+export const MAX_SESSION_BYTES = 10 * 1024 * 1024
@@ -0,0 +1,48 @@
+import { createLoadout } from '@/lib/loadouts'
+import type {
+  EquippedState,
+  WardrobeSession,
+  WardrobeSessionState,
+} from '@/lib/types'
+
+// Version 1 started out with a single outfit on the wardrobe itself; later
+// version 1 saves already carry loadouts.
+type WardrobeSessionV1 = Omit<WardrobeSession, 'version' | 'wardrobe'> & {
+  version: 1
+  wardrobe:
+    | (Omit<WardrobeSessionState, 'loadouts' | 'activeLoadoutId'> &
+        Partial<Pick<WardrobeSessionState, 'loadouts' | 'activeLoadoutId'>> & {
+          equipped?: EquippedState
+          generatedOutfitUrl?: string | null
+        })
+    | null
+}
+
+export type StoredWardrobeSession = WardrobeSession | WardrobeSessionV1
+
+export const migrateWardrobeSession = (
+  session: StoredWardrobeSession,
+): WardrobeSession => {
+  if (session.version === 2) return session
+  if (!session.wardrobe) return { ...session, version: 2, wardrobe: null }
+
+  const { equipped, generatedOutfitUrl, loadouts, activeLoadoutId, ...rest } =
+    session.wardrobe
+  if (loadouts?.length && activeLoadoutId) {
+    return {
+      ...session,
+      version: 2,
+      wardrobe: { ...rest, loadouts, activeLoadoutId },
+    }
+  }
+
+  const loadout = {
+    ...createLoadout('Outfit 1', equipped ?? {}),
+    renderUrl: generatedOutfitUrl ?? null,
+  }
+  return {
+    ...session,
+    version: 2,
+    wardrobe: { ...rest, loadouts: [loadout], activeLoadoutId: loadout.id },
+  }
+}
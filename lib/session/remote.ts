@@ -0,0 +1,32 @@
+import type { WardrobeSession } from '@/lib/types'
+
+import type { StoredWardrobeSession } from './migrate'
+
+const sessionUrl = (id: string) => `/api/session/${encodeURIComponent(id)}`
+
+export const readRemoteSession = async (
+  id: string,
+): Promise<StoredWardrobeSession | null> => {
+  const response = await fetch(sessionUrl(id), { cache: 'no-store' })
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`Session fetch failed with status ${response.status}.`)
+  }
+  const data = (await response.json()) as { session?: StoredWardrobeSession }
+  return data.session ?? null
+}
+
+export const writeRemoteSession = async (session: WardrobeSession) => {
+  const response = await fetch(sessionUrl(session.id), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(session),
+  })
+  if (!response.ok) {
+    throw new Error(`Session save failed with status ${response.status}.`)
+  }
+}
+
+export const deleteRemoteSession = async (id: string) => {
+  await fetch(sessionUrl(id), { method: 'DELETE' })
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+
+import { createTtlCache } from '@/lib/ttl-cache'
+import type { WardrobeSession } from '@/lib/types'
+
+// Sessions are kept in memory on the server, so they survive reloads but not
+// a redeploy. IndexedDB on the client stays the primary copy. The byte budget
+// drops the least recently used sessions first.
+export const sessionStore = createTtlCache<WardrobeSession>({
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+  maxBytes: 256 * 1024 * 1024,
+  sizeOf: (session) => Buffer.byteLength(JSON.stringify(session)),
+})
+
+export const sessionIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9-]{8,64}$/, 'Invalid session id.')
+
+// Product and slot payloads are shaped by the client, so only the envelope is
+// checked here.
+export const wardrobeSessionSchema = z.object({
+  id: sessionIdSchema,
+  version: z.literal(2),
+  updatedAt: z.string().datetime(),
+  intake: z.object({
+    products: z.array(z.object({ id: z.string() }).passthrough()),
+    batches: z.array(z.object({ id: z.string() }).passthrough()),
+    lastQuery: z.string().nullable(),
+    lastSearch: z.object({ query: z.string() }).passthrough().nullable(),
+  }),
+  wardrobe: z
+    .object({
+      deck: z.array(z.object({ id: z.string() }).passthrough()),
+      saved: z.array(z.object({ id: z.string() }).passthrough()),
+      dismissedIds: z.array(z.string()).default([]),
+      maybeLater: z
+        .array(z.object({ id: z.string() }).passthrough())
+        .default([]),
+      loadouts: z.array(
+        z
+          .object({
+            id: z.string(),
+            name: z.string().max(60),
+            equipped: z.record(z.unknown()),
+            renderUrl: z.string().nullable(),
+          })
+          .passthrough(),
+      ),
+      activeLoadoutId: z.string(),
+      activeStep: z.enum(['discover', 'wardrobe']),
+      portraitUrl: z.string().nullable(),
+      renders: z
+        .array(
+          z
+            .object({
+              id: z.string(),
+              imageUrl: z.string(),
+              equipped: z.record(z.unknown()),
+            })
+            .passthrough(),
+        )
+        .optional(),
+    })
+    .nullable(),
+  budget: z
+    .object({ amount: z.number().positive(), currency: z.string() })
+    .nullable()
+    .optional(),
+})
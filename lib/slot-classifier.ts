@@ -0,0 +1,124 @@
+import { SLOT_DEFINITIONS, type SlotKeyword } from '@/lib/slots'
+import type { ProductSummary, SlotCandidate, SlotId } from '@/lib/types'
+
+export const SLOT_FALLBACK_PRIORITY: SlotId[] = ['chest', 'legs', 'hand', 'bag']
+
+// Candidates below this confidence are only offered when nothing scores
+// higher, so a stray "top" in a description doesn't claim the chest slot.
+export const MIN_SLOT_CONFIDENCE = 0.3
+
+const NAME_MATCH_MULTIPLIER = 3
+const PLANNED_SLOT_BONUS = 4
+// A raw score at or above this counts as a confident match on its own.
+const CONFIDENT_SCORE = 3
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const keywordPatterns = new Map<string, RegExp>()
+
+const keywordPattern = (term: string) => {
+  let pattern = keywordPatterns.get(term)
+  if (!pattern) {
+    pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i')
+    keywordPatterns.set(term, pattern)
+  }
+  return pattern
+}
+
+const scoreText = (text: string, keyword: SlotKeyword) => {
+  if (!keywordPattern(keyword.term).test(text)) return 0
+  if (keyword.unless?.test(text)) return 0
+  // Multi-word phrases are more specific than single words.
+  const specificity = keyword.term.split(/[\s-]+/).length
+  return (keyword.weight ?? 1) * specificity
+}
+
+export const classifyProduct = (
+  product: Pick<ProductSummary, 'name' | 'description'> & {
+    plannedSlot?: SlotId
+  },
+): SlotCandidate[] => {
+  const name = String(product.name ?? '').toLowerCase()
+  const description = String(product.description ?? '').toLowerCase()
+
+  const scored = SLOT_DEFINITIONS.map(({ id: slotId, keywords }) => {
+    const matchedKeywords: string[] = []
+    let score = 0
+
+    keywords.forEach((keyword: SlotKeyword) => {
+      const nameScore = scoreText(name, keyword) * NAME_MATCH_MULTIPLIER
+      const descriptionScore = nameScore ? 0 : scoreText(description, keyword)
+      if (nameScore || descriptionScore) {
+        matchedKeywords.push(keyword.term)
+        score += nameScore + descriptionScore
+      }
+    })
+
+    if (product.plannedSlot === slotId) {
+      score += PLANNED_SLOT_BONUS
+    }
+
+    return { slotId, score, matchedKeywords }
+  })
+
+  const total = scored.reduce((sum, entry) => sum + entry.score, 0)
+  if (!total) return []
+
+  return scored
+    .filter((entry) => entry.score > 0)
+    .map(({ slotId, score, matchedKeywords }) => ({
+      slotId,
+      // Share of the evidence, damped when the evidence itself is thin.
+      confidence:
+        Math.round(
+          (score / total) * Math.min(1, score / CONFIDENT_SCORE) * 100,
+        ) / 100,
+      matchedKeywords,
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+}
+
+export const getSlotCandidates = (product: ProductSummary): SlotCandidate[] =>
+  product.slotCandidates ?? classifyProduct(product)
+
+// Slots a product should be offered in: every confident candidate, or the
+// single best guess when none is confident.
+export const getLikelySlots = (product: ProductSummary): SlotId[] => {
+  const candidates = getSlotCandidates(product)
+  const confident = candidates.filter(
+    (candidate) => candidate.confidence >= MIN_SLOT_CONFIDENCE,
+  )
+  return (confident.length ? confident : candidates.slice(0, 1)).map(
+    (candidate) => candidate.slotId,
+  )
+}
+
+export const getBestSlot = (product: ProductSummary): SlotId | null =>
+  product.slotOverride ?? getSlotCandidates(product)[0]?.slotId ?? null
+
+export type SavedSlotSource = 'override' | 'planned' | 'detected' | 'fallback'
+
+// Where a saved product is offered for equipping, and why. Products that
+// match no slot fall back to the first fallback slot.
+export const getSavedProductSlots = (
+  product: ProductSummary,
+): { slotIds: SlotId[]; source: SavedSlotSource } => {
+  if (product.slotOverride) {
+    return { slotIds: [product.slotOverride], source: 'override' }
+  }
+  if (product.plannedSlot) {
+    return { slotIds: [product.plannedSlot], source: 'planned' }
+  }
+  const likely = getLikelySlots(product)
+  return likely.length
+    ? { slotIds: likely, source: 'detected' }
+    : { slotIds: [SLOT_FALLBACK_PRIORITY[0]], source: 'fallback' }
+}
+
+export const withSlotCandidates = (
+  product: ProductSummary,
+): ProductSummary => ({
+  ...product,
+  slotCandidates: classifyProduct(product),
+})
@@ -0,0 +1,362 @@
+import type { IconType } from 'react-icons'
+import {
+  GiBelt,
+  GiBigDiamondRing,
+  GiChelseaBoot,
+  GiDropEarrings,
+  GiHandBag,
+  GiMonclerJacket,
+  GiPearlNecklace,
+  GiPocketWatch,
+  GiSpaceSuit,
+  GiSunglasses,
+  GiTrousers,
+  GiTShirt,
+  GiWinterGloves,
+  GiWinterHat,
+} from 'react-icons/gi'
+
+export type SlotKeyword = {
+  term: string
+  weight?: number
+  // Skip the match when the surrounding text means something else, e.g.
+  // "band" on a watch or "ring" in "key ring".
+  unless?: RegExp
+}
+
+export type SlotDefinition = {
+  id: string
+  // Short name shown on the slot itself.
+  label: string
+  // Category name used in purchase orders and try-on prompts.
+  displayLabel: string
+  icon: IconType
+  // Lower ranks are composited onto the portrait first.
+  layeringRank: number
+  side: 'left' | 'right'
+  keywords: readonly SlotKeyword[]
+  // Other slots a garment in this slot also occupies, e.g. a wetsuit covers
+  // both the top and the bottom.
+  covers?: readonly string[]
+}
+
+// The single source of truth for wardrobe slots. Order here is the order
+// slots render in within their side of the wardrobe.
+export const SLOT_DEFINITIONS = [
+  {
+    id: 'head',
+    label: 'Head',
+    displayLabel: 'Headwear',
+    icon: GiWinterHat,
+    layeringRank: 5,
+    side: 'left',
+    keywords: [
+      { term: 'hat' },
+      { term: 'helmet' },
+      { term: 'cap', unless: /\bcap sleeves?\b|\bcap toe\b/ },
+      { term: 'beanie' },
+      { term: 'visor' },
+      { term: 'headband' },
+      { term: 'bucket hat', weight: 2 },
+      { term: 'sun hat', weight: 2 },
+    ],
+  },
+  {
+    id: 'chest',
+    label: 'Chest',
+    displayLabel: 'Top',
+    icon: GiTShirt,
+    layeringRank: 3,
+    side: 'left',
+    keywords: [
+      { term: 'shirt' },
+      { term: 'tee' },
+      { term: 't-shirt' },
+      { term: 'rash guard', weight: 2 },
+      { term: 'rashguard', weight: 2 },
+      { term: 'hoodie' },
+      {
+        term: 'top',
+        weight: 0.5,
+        unless: /\btop zip\b|\broll top\b|\btop loader\b/,
+      },
+      { term: 'vest' },
+      { term: 'long sleeve' },
+      { term: 'pullover' },
+      { term: 'sweater' },
+      { term: 'crew', weight: 0.5 },
+      { term: 'tank' },
+      { term: 'jersey' },
+      { term: 'fleece' },
+    ],
+  },
+  {
+    id: 'outerwear',
+    label: 'Outerwear',
+    displayLabel: 'Outerwear',
+    icon: GiMonclerJacket,
+    layeringRank: 4,
+    side: 'left',
+    keywords: [
+      { term: 'jacket' },
+      { term: 'coat' },
+      { term: 'parka' },
+      { term: 'anorak' },
+      { term: 'windbreaker' },
+      { term: 'raincoat' },
+      { term: 'poncho' },
+    ],
+  },
+  {
+    id: 'wetsuit',
+    label: 'Full body',
+    displayLabel: 'One-piece',
+    icon: GiSpaceSuit,
+    layeringRank: 0,
+    side: 'left',
+    covers: ['chest', 'legs'],
+    keywords: [
+      { term: 'wetsuit', weight: 2 },
+      { term: 'wet suit', weight: 2 },
+      { term: 'springsuit', weight: 2 },
+      { term: 'spring suit', weight: 2 },
+      { term: 'steamer' },
+      { term: 'full suit' },
+      { term: 'jumpsuit' },
+      { term: 'dress' },
+    ],
+  },
+  {
+    id: 'waist',
+    label: 'Waist',
+    displayLabel: 'Waist',
+    icon: GiBelt,
+    layeringRank: 13,
+    side: 'left',
+    keywords: [
+      { term: 'belt' },
+      { term: 'waist', weight: 0.5, unless: /\bwaistband\b|\bhigh waist/ },
+      { term: 'fanny' },
+      { term: 'hip pack' },
+      { term: 'utility belt', weight: 2 },
+      { term: 'sash' },
+      { term: 'wrap', weight: 0.5, unless: /\bwrap (?:skirt|dress|top)\b/ },
+    ],
+  },
+  {
+    id: 'legs',
+    label: 'Legs',
+    displayLabel: 'Bottom',
+    icon: GiTrousers,
+    layeringRank: 1,
+    side: 'left',
+    keywords: [
+      { term: 'short' },
+      { term: 'shorts' },
+      { term: 'pant' },
+      { term: 'pants' },
+      { term: 'trouser' },
+      { term: 'trousers' },
+      { term: 'legging' },
+      { term: 'leggings' },
+      {
+        term: 'tight',
+        weight: 0.5,
+        unless: /\btight(?:ly)? (?:fit|fitting|weave)\b/,
+      },
+      { term: 'tights' },
+      { term: 'boardshort', weight: 2 },
+      { term: 'boardshorts', weight: 2 },
+      { term: 'baggies' },
+      { term: 'jean' },
+      { term: 'jeans' },
+      { term: 'bottom', weight: 0.5 },
+      { term: 'skirt' },
+    ],
+  },
+  {
+    id: 'feet',
+    label: 'Feet',
+    displayLabel: 'Footwear',
+    icon: GiChelseaBoot,
+    layeringRank: 2,
+    side: 'left',
+    keywords: [
+      { term: 'shoe' },
+      { term: 'shoes' },
+      { term: 'boot' },
+      { term: 'boots' },
+      { term: 'sandal' },
+      { term: 'sandals' },
+      { term: 'flip-flop' },
+      { term: 'flip flop' },
+      { term: 'flop' },
+      { term: 'sneaker' },
+      { term: 'sneakers' },
+      { term: 'sock' },
+      { term: 'socks' },
+      { term: 'slide', unless: /\bslide (?:buckle|clasp|closure)\b/ },
+      { term: 'slides' },
+    ],
+  },
+  {
+    id: 'eyewear',
+    label: 'Eyes',
+    displayLabel: 'Eyewear',
+    icon: GiSunglasses,
+    layeringRank: 6,
+    side: 'right',
+    keywords: [
+      { term: 'sunglasses', weight: 2 },
+      { term: 'glasses' },
+      { term: 'goggles' },
+      { term: 'shades' },
+      { term: 'eyewear' },
+      { term: 'polarized', weight: 0.5 },
+    ],
+  },
+  {
+    id: 'ears',
+    label: 'Ears',
+    displayLabel: 'Accessory',
+    icon: GiDropEarrings,
+    layeringRank: 11,
+    side: 'right',
+    keywords: [
+      { term: 'earring', weight: 2 },
+      { term: 'earrings', weight: 2 },
+      { term: 'ear ring', weight: 2 },
+      { term: 'ear cuff', weight: 2 },
+      { term: 'ear stud', weight: 2 },
+      { term: 'ear hoop', weight: 2 },
+      { term: 'studs' },
+    ],
+  },
+  {
+    id: 'neck',
+    label: 'Neck',
+    displayLabel: 'Accessory',
+    icon: GiPearlNecklace,
+    layeringRank: 10,
+    side: 'right',
+    keywords: [
+      { term: 'necklace' },
+      { term: 'scarf' },
+      { term: 'chain', weight: 0.5, unless: /\bchain strap\b|\bkey ?chain\b/ },
+      { term: 'neck gaiter', weight: 2 },
+      { term: 'bandana' },
+      { term: 'choker' },
+      { term: 'pendant' },
+    ],
+  },
+  {
+    id: 'bag',
+    label: 'Bag',
+    displayLabel: 'Accessory',
+    icon: GiHandBag,
+    layeringRank: 7,
+    side: 'right',
+    keywords: [
+      { term: 'bag' },
+      { term: 'backpack' },
+      { term: 'back pack' },
+      { term: 'tote' },
+      { term: 'duffle' },
+      { term: 'duffel' },
+      { term: 'dry bag', weight: 2 },
+      { term: 'sling' },
+      { term: 'satchel' },
+      { term: 'pouch', weight: 0.5 },
+    ],
+  },
+  {
+    id: 'hand',
+    label: 'Hand',
+    displayLabel: 'Accessory',
+    icon: GiWinterGloves,
+    layeringRank: 8,
+    side: 'right',
+    keywords: [
+      { term: 'glove' },
+      { term: 'gloves' },
+      { term: 'mitten' },
+      { term: 'mittens' },
+      { term: 'surfboard', weight: 2 },
+      { term: 'longboard' },
+      { term: 'shortboard' },
+      { term: 'paddle' },
+      { term: 'wax', weight: 0.5 },
+      { term: 'leash' },
+      { term: 'fin', weight: 0.5 },
+      { term: 'fins', weight: 0.5 },
+    ],
+  },
+  {
+    id: 'watch',
+    label: 'Wrist',
+    displayLabel: 'Watch',
+    icon: GiPocketWatch,
+    layeringRank: 9,
+    side: 'right',
+    keywords: [
+      { term: 'watch', unless: /\bwatch (?:band|strap)s?\b/ },
+      { term: 'watches' },
+      { term: 'smartwatch', weight: 2 },
+      { term: 'dive watch', weight: 2 },
+      { term: 'tide watch', weight: 2 },
+    ],
+  },
+  {
+    id: 'ring',
+    label: 'Ring',
+    displayLabel: 'Accessory',
+    icon: GiBigDiamondRing,
+    layeringRank: 12,
+    side: 'right',
+    keywords: [
+      {
+        term: 'ring',
+        unless: /\bear ?rings?\b|\bkey ?rings?\b|\bd-?rings?\b|\bo-?rings?\b/,
+      },
+      { term: 'rings', unless: /\bear ?rings\b|\bkey ?rings\b/ },
+      {
+        term: 'band',
+        weight: 0.5,
+        unless:
+          /\bwatch\b|\bwrist\b|\bhead ?band\b|\bwaist ?band\b|\bhair\b|\brubber band\b|\bresistance\b/,
+      },
+      { term: 'signet', weight: 2 },
+    ],
+  },
+] as const satisfies readonly SlotDefinition[]
+
+export type SlotId = (typeof SLOT_DEFINITIONS)[number]['id']
+
+export const SLOT_IDS: SlotId[] = SLOT_DEFINITIONS.map((slot) => slot.id)
+
+const slotsById = new Map<string, SlotDefinition>(
+  SLOT_DEFINITIONS.map((slot) => [slot.id, slot]),
+)
+
+export const isSlotId = (value: string): value is SlotId => slotsById.has(value)
+
+export const getSlotDefinition = (slotId: SlotId): SlotDefinition =>
+  slotsById.get(slotId)!
+
+export const getSlotLabel = (slotId: SlotId) =>
+  slotsById.get(slotId)?.label ?? slotId
+
+export const getSlotDisplayLabel = (slotId: SlotId) =>
+  slotsById.get(slotId)?.displayLabel ?? slotId
+
+export const getSlotsForSide = (side: SlotDefinition['side']) =>
+  SLOT_DEFINITIONS.filter((slot) => slot.side === side)
+
+export const getCoveredSlots = (slotId: SlotId): SlotId[] =>
+  (slotsById.get(slotId)?.covers ?? []).filter(isSlotId)
+
+export const LAYERING_ORDER: SlotId[] = [...SLOT_DEFINITIONS]
+  .sort((a, b) => a.layeringRank - b.layeringRank)
+  .map((slot) => slot.id)
+
+export const describeSlotIds = () => SLOT_IDS.join(', ')
@@ -0,0 +1,66 @@
+import { getEquippedItems } from '@/lib/equipment'
+import type { EquippedState, TryOnRender } from '@/lib/types'
+
+// Each render is a full data URL saved with the session, so only the most
+// recent ones are kept. That bounds the local copy; the server copy has a
+// byte limit and is trimmed further before syncing (lib/session/index.ts).
+export const MAX_TRY_ON_RENDERS = 6
+
+const createRenderId = () =>
+  `render-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+export const createTryOnRender = ({
+  imageUrl,
+  equipped,
+  seed,
+  modelVersion,
+}: {
+  imageUrl: string
+  equipped: EquippedState
+  seed: number | null
+  modelVersion: string
+}): TryOnRender => ({
+  id: createRenderId(),
+  createdAt: new Date().toISOString(),
+  imageUrl,
+  equipped,
+  seed,
+  modelVersion,
+})
+
+export const addTryOnRender = (renders: TryOnRender[], render: TryOnRender) =>
+  [render, ...renders].slice(0, MAX_TRY_ON_RENDERS)
+
+const isSameOutfit = (left: EquippedState, right: EquippedState) => {
+  const ids = (equipped: EquippedState) =>
+    getEquippedItems(equipped)
+      .map(({ slotId, product }) => `${slotId}:${product.id}`)
+      .sort()
+      .join()
+  return ids(left) === ids(right)
+}
+
+// Re-rendering an edited outfit reuses the latest seed, so the layers that
+// didn't change come straight from the pass cache. Rendering the same outfit
+// again is a retry, so the server picks a new seed and a new look.
+export const getNextRenderSeed = (
+  renders: TryOnRender[],
+  equipped: EquippedState,
+) => {
+  const [latest] = renders
+  if (!latest || isSameOutfit(latest.equipped, equipped)) return null
+  return latest.seed
+}
+
+export const describeTryOnRender = (render: TryOnRender) => {
+  const names = getEquippedItems(render.equipped).map(
+    ({ product }) => product.name,
+  )
+  return names.length ? names.join(', ') : 'Nothing equipped'
+}
+
+export const formatTryOnRenderTime = (render: TryOnRender) =>
+  new Date(render.createdAt).toLocaleTimeString([], {
+    hour: 'numeric',
+    minute: '2-digit',
+  })
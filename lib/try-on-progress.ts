@@ -0,0 +1,114 @@
+import { getSlotDisplayLabel } from '@/lib/slots'
+import type { SlotId, TryOnJobEvent } from '@/lib/types'
+
+export type TryOnProgress = {
+  jobId: string
+  // 0 until the server reports the first pass.
+  pass: number
+  totalPasses: number
+  slotIds: SlotId[]
+  isApplying: boolean
+  previewUrl: string | null
+}
+
+type FinalTryOnJobEvent = Extract<
+  TryOnJobEvent,
+  { type: 'succeeded' | 'failed' | 'cancelled' }
+>
+
+export const createTryOnProgress = (jobId: string): TryOnProgress => ({
+  jobId,
+  pass: 0,
+  totalPasses: 0,
+  slotIds: [],
+  isApplying: false,
+  previewUrl: null,
+})
+
+export const applyTryOnJobEvent = (
+  progress: TryOnProgress,
+  event: TryOnJobEvent,
+): TryOnProgress => {
+  if (event.type === 'pass-started') {
+    const { pass, totalPasses, slotIds } = event
+    return { ...progress, pass, totalPasses, slotIds, isApplying: true }
+  }
+  if (event.type === 'pass-completed') {
+    const { pass, totalPasses, slotIds, previewUrl } = event
+    return {
+      ...progress,
+      pass,
+      totalPasses,
+      slotIds,
+      isApplying: false,
+      previewUrl: previewUrl ?? progress.previewUrl,
+    }
+  }
+  return progress
+}
+
+export const describeTryOnSlots = (slotIds: SlotId[]) =>
+  slotIds.map(getSlotDisplayLabel).join(' and ').toLowerCase()
+
+export const describeTryOnProgress = (progress: TryOnProgress | null) => {
+  if (!progress) return 'No try-on is running.'
+  if (!progress.totalPasses) return 'Preparing your try-on.'
+
+  const { pass, totalPasses, slotIds, isApplying } = progress
+  return `${isApplying ? 'Applying' : 'Applied'} the ${describeTryOnSlots(
+    slotIds,
+  )} (pass ${pass} of ${totalPasses}).`
+}
+
+const MAX_RECONNECTS = 3
+
+// Resolves with the job's final event. A dropped connection is retried, and
+// each reconnect replays the job from the start, so events already seen are
+// skipped. If the job is gone or the connection keeps failing, the job is
+// cancelled (so it doesn't keep rendering unseen) and reported as failed.
+export const followTryOnJob = (
+  jobId: string,
+  onEvent: (event: TryOnJobEvent) => void,
+  { cancelJob }: { cancelJob?: (jobId: string) => Promise<unknown> } = {},
+) =>
+  new Promise<FinalTryOnJobEvent>((resolve) => {
+    const source = new EventSource(
+      `/api/virtual-try-on/jobs/${encodeURIComponent(jobId)}`,
+    )
+    let seen = 0
+    let replayed = 0
+    let reconnects = 0
+    source.onopen = () => {
+      replayed = 0
+    }
+    source.onmessage = (message) => {
+      reconnects = 0
+      replayed += 1
+      if (replayed <= seen) return
+      seen = replayed
+      const event = JSON.parse(message.data) as TryOnJobEvent
+      if (
+        event.type === 'succeeded' ||
+        event.type === 'failed' ||
+        event.type === 'cancelled'
+      ) {
+        source.close()
+        resolve(event)
+        return
+      }
+      onEvent(event)
+    }
+    source.onerror = () => {
+      // CONNECTING means the browser is already retrying.
+      reconnects += 1
+      if (
+        source.readyState === EventSource.CONNECTING &&
+        reconnects <= MAX_RECONNECTS
+      ) {
+        return
+      }
+      source.close()
+      void cancelJob?.(jobId).catch(() => {})
+      resolve({ type: 'failed', error: 'Lost connection to the try-on job.' })
+    }
+  })
@@ -0,0 +1,113 @@
+export type CacheStatus = 'HIT' | 'MISS' | 'COALESCED'
+
+export type TtlCache<T> = {
+  getOrLoad: (
+    key: string,
+    load: () => Promise<T>,
+  ) => Promise<{ value: T; status: CacheStatus }>
+  get: (key: string) => T | undefined
+  set: (key: string, value: T) => void
+  delete: (key: string) => void
+  clear: () => void
+}
+
+type CacheEntry<T> = {
+  value: T
+  expiresAt: number
+  bytes: number
+}
+
+// A small in-memory LRU with per-entry expiry. Concurrent loads for the same
+// key share a single promise, and failed loads are never cached. With
+// `maxBytes`, entries are also evicted until their `sizeOf` total fits, and a
+// value larger than the whole budget is not stored at all.
+export const createTtlCache = <T>({
+  ttlMs,
+  maxEntries,
+  maxBytes = Infinity,
+  sizeOf = () => 0,
+}: {
+  ttlMs: number
+  maxEntries: number
+  maxBytes?: number
+  sizeOf?: (value: T) => number
+}): TtlCache<T> => {
+  const entries = new Map<string, CacheEntry<T>>()
+  const inFlight = new Map<string, Promise<T>>()
+  let totalBytes = 0
+
+  const remove = (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return
+    entries.delete(key)
+    totalBytes -= entry.bytes
+  }
+
+  const get = (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= Date.now()) {
+      remove(key)
+      return undefined
+    }
+    // Re-insert so the Map's iteration order tracks recency.
+    entries.delete(key)
+    entries.set(key, entry)
+    return entry.value
+  }
+
+  const set = (key: string, value: T) => {
+    remove(key)
+    const bytes = sizeOf(value)
+    if (bytes > maxBytes) return
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs, bytes })
+    totalBytes += bytes
+    while (entries.size > maxEntries || totalBytes > maxBytes) {
+      const oldestKey = entries.keys().next().value
+      if (oldestKey === undefined) break
+      remove(oldestKey)
+    }
+  }
+
+  const getOrLoad = async (key: string, load: () => Promise<T>) => {
+    const cached = get(key)
+    if (cached !== undefined) {
+      return { value: cached, status: 'HIT' as const }
+    }
+
+    const pending = inFlight.get(key)
+    if (pending) {
+      return { value: await pending, status: 'COALESCED' as const }
+    }
+
+    // `delete` and `clear` drop the in-flight entry, so a load that finishes
+    // after its key was removed returns its value without caching it.
+    const isCurrent = () => inFlight.get(key) === request
+    const request: Promise<T> = load()
+      .then((value) => {
+        if (isCurrent()) set(key, value)
+        return value
+      })
+      .finally(() => {
+        if (isCurrent()) inFlight.delete(key)
+      })
+    inFlight.set(key, request)
+
+    return { value: await request, status: 'MISS' as const }
+  }
+
+  return {
+    getOrLoad,
+    get,
+    set,
+    delete: (key) => {
+      remove(key)
+      inFlight.delete(key)
+    },
+    clear: () => {
+      entries.clear()
+      inFlight.clear()
+      totalBytes = 0
+    },
+  }
+}
@@ -1,18 +1,52 @@
 import type { ProductSearchResponse } from '@henrylabs/sdk/resources/products/products'
 
-export type SlotId =
-  | 'head'
-  | 'chest'
-  | 'waist'
-  | 'legs'
-  | 'feet'
-  | 'ears'
-  | 'neck'
-  | 'bag'
-  | 'hand'
-  | 'ring'
-
-export type ProductSummary = ProductSearchResponse['data'][number]
+import type { SlotId } from '@/lib/slots'
+
+export type { SlotId }
+
+export type ProductSummary = ProductSearchResponse['data'][number] & {
+  // Set when the product was fetched for a specific slot of an outfit plan.
+  plannedSlot?: SlotId
+  // Chosen by the shopper in the saved-items tray; beats every other guess.
+  slotOverride?: SlotId
+  // Scored slot guesses attached by the search API, best first.
+  slotCandidates?: SlotCandidate[]
+}
+
+export type SlotCandidate = {
+  slotId: SlotId
+  confidence: number
+  matchedKeywords: string[]
+}
+
+export type SearchFilters = {
+  minPrice?: number
+  maxPrice?: number
+  currency?: string
+  merchants?: string[]
+  excludeMerchants?: string[]
+  color?: string
+  size?: string
+  category?: string
+}
+
+export type ProductSearchPage = {
+  products: ProductSummary[]
+  nextCursor: string | null
+  plan?: OutfitPlanSummary
+}
+
+export type OutfitPlan = {
+  template: string
+  context: string
+  slots: Array<{ slotId: SlotId; query: string }>
+}
+
+export type OutfitPlanSummary = Omit<OutfitPlan, 'slots'> & {
+  slots: Array<OutfitPlan['slots'][number] & { count: number }>
+  // Planned searches return a single page per slot; there is no next cursor.
+  paginated: false
+}
 
 export type EquippedState = Partial<Record<SlotId, ProductSummary | null>>
 
@@ -20,9 +54,168 @@ export type SelectedWardrobeItem = ProductSummary & {
   slotId: SlotId
 }
 
+// Over budget is a result rather than a thrown error, because production
+// builds replace server action error messages with a generic one.
+export type PurchaseResult =
+  | { status: 'over-budget'; message: string }
+  | { status: 'completed'; result: unknown }
+
 export type WardrobeSlotImage = {
   buffer?: Buffer
   dataUrl?: string | null
   imageUrl?: string | null
   mimeType?: string | null
 }
+
+export type ProductVariant = {
+  id: string
+  name: string
+  options: Record<string, string>
+  price?: number | null
+  imageUrl?: string | null
+  inStock?: boolean | null
+}
+
+export type MerchantOffer = {
+  merchant: string
+  price: number
+  currency: string
+  url?: string | null
+  inStock?: boolean | null
+}
+
+export type ProductDetails = {
+  id: string
+  name: string
+  description?: string | null
+  price: number
+  currency: string
+  source: string
+  imageUrl?: string | null
+  images: string[]
+  variants: ProductVariant[]
+  offers: MerchantOffer[]
+}
+
+export type ProductAvailability = {
+  productId: string
+  inStock: boolean
+  quantity?: number | null
+  checkedAt: string
+}
+
+export type WardrobeSearchRequest = {
+  query: string
+  limit?: number
+  cursor?: string | null
+  filters?: SearchFilters
+  outfit?: boolean
+}
+
+export type IntakeBatch = {
+  id: string
+  query: string
+  count: number
+  filters: string[]
+  plannedSlots: SlotId[]
+}
+
+export type WardrobeFlowStep = 'discover' | 'wardrobe'
+
+// A named outfit built from the shared pool of saved products.
+export type Loadout = {
+  id: string
+  name: string
+  equipped: EquippedState
+  renderUrl: string | null
+  updatedAt: string
+}
+
+// Everything the wardrobe needs to pick up where the shopper left off.
+export type WardrobeSessionState = {
+  deck: ProductSummary[]
+  saved: ProductSummary[]
+  // Products swiped away, so later batches don't bring them back.
+  dismissedIds: string[]
+  // Swiped down: re-queued under the deck once the rest has been seen.
+  maybeLater: ProductSummary[]
+  loadouts: Loadout[]
+  activeLoadoutId: string
+  activeStep: WardrobeFlowStep
+  portraitUrl: string | null
+  // Newest first. Sessions saved before the gallery existed have none.
+  renders?: TryOnRender[]
+}
+
+// A finished try-on, kept so the shopper can compare and go back to it.
+export type TryOnRender = {
+  id: string
+  createdAt: string
+  imageUrl: string
+  // Exactly what was equipped when the render started.
+  equipped: EquippedState
+  seed: number | null
+  modelVersion: string
+}
+
+// A spending cap set by the shopper, in the currency products are listed in.
+export type ShopperBudget = {
+  amount: number
+  currency: string
+}
+
+export type WardrobeSession = {
+  id: string
+  // 2 since the single outfit became loadouts (lib/session/migrate.ts).
+  version: 2
+  updatedAt: string
+  intake: {
+    products: ProductSummary[]
+    batches: IntakeBatch[]
+    lastQuery: string | null
+    lastSearch: WardrobeSearchRequest | null
+  }
+  wardrobe: WardrobeSessionState | null
+  // Sessions saved before budgets existed have no budget field.
+  budget?: ShopperBudget | null
+}
+
+export type SharedOutfitItem = {
+  slotId: SlotId
+  product: ProductSummary
+}
+
+// A frozen, read-only copy of a loadout that can be opened from a link.
+export type SharedOutfit = {
+  id: string
+  name: string
+  createdAt: string
+  items: SharedOutfitItem[]
+  renderUrl: string | null
+}
+
+// Streamed by /api/virtual-try-on/jobs/[id]. Passes are 1-based.
+export type TryOnJobEvent =
+  | {
+      type: 'pass-started'
+      pass: number
+      totalPasses: number
+      slotIds: SlotId[]
+    }
+  | {
+      type: 'pass-completed'
+      pass: number
+      totalPasses: number
+      slotIds: SlotId[]
+      // Data URL of the portrait after this pass, when there is one to show.
+      previewUrl: string | null
+      cached: boolean
+    }
+  | {
+      type: 'succeeded'
+      image: string
+      seed: number | null
+      modelVersion: string
+    }
+  | { type: 'failed'; error: string }
+  | { type: 'cancelled' }
@@ -4,3 +4,11 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Keyboard shortcuts stay out of the way while the shopper is typing.
+export function isTypingTarget(target: EventTarget | null) {
+  const element = target as HTMLElement | null
+  return Boolean(
+    element?.isContentEditable || element?.closest?.('input, textarea, select'),
+  )
+}